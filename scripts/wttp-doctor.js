@@ -0,0 +1,43 @@
+#!/usr/bin/env node
+
+// Checks the WTTP configuration against the chains it points at
+// Usage: wttp-doctor [--config <file>] [--network <name>]... [--host <network>=<address>]... [--timeout <ms>] [--json]
+// Without a --host for a network, the gateway probe checks the gateway code dispatches the WTTP methods
+
+import { parseArgs } from 'util';
+import { loadWttpConfig, verifyWttpConfig, formatWttpConfigReport } from '../dist/index.esm.js';
+
+const { values } = parseArgs({
+  options: {
+    config: { type: 'string' },
+    network: { type: 'string', multiple: true },
+    host: { type: 'string', multiple: true },
+    timeout: { type: 'string' },
+    json: { type: 'boolean', default: false }
+  }
+});
+
+// Probe hosts are given as network=address pairs
+const hosts = {};
+for (const pair of values.host || []) {
+  const [network, address] = pair.split('=');
+  if (!network || !address) {
+    console.error(`Invalid --host ${pair}: expected <network>=<address>`);
+    process.exit(2);
+  }
+  hosts[network] = address;
+}
+
+try {
+  const config = await loadWttpConfig({ file: values.config, onWarning: (message) => console.error(message) });
+  const report = await verifyWttpConfig(config, {
+    networks: values.network,
+    hosts,
+    timeoutMs: values.timeout ? Number(values.timeout) : undefined
+  });
+  console.log(values.json ? JSON.stringify(report, null, 2) : formatWttpConfigReport(report));
+  process.exitCode = report.ok ? 0 : 1;
+} catch (error) {
+  console.error(error.message || error);
+  process.exitCode = 2;
+}
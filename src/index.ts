@@ -7,28 +7,217 @@ export {
   getHostAddress,
   getNetworkAlias,
   getWttpUrl,
+  getUrlNetwork,
+  formatUrl,
   getWttpProvider,
   loadWttpHost,
   loadWttpGateway,
   wttpGet,
   wttpHead,
-  WTTP_VERSION
+  wttpFetch,
+  wttpGetStream,
+  wttpGetChunks,
+  wttpOptions,
+  wttpLocate,
+  wttpLocateChunks,
+  WTTP_VERSION,
+  WTTP_METHODS,
+  decodeWttpMethods,
+  encodeWttpMethods,
+  defaultWttpClient
 } from "./utils/wttpMethods";
 
+// Export the instantiable client
+export {
+  WttpClient,
+  DEFAULT_VALIDATION_TTL_MS,
+  DEFAULT_LOCATE_PAGE_SIZE,
+  DEFAULT_STREAM_CHUNK_SIZE,
+  DEFAULT_STREAM_CONCURRENCY,
+  DEFAULT_MAX_REDIRECTS
+} from "./utils/wttpClient";
+
+// Export the RPC failover provider
+export { WttpRpcProvider, WttpRpcSession, DEFAULT_RPC_OPTIONS } from "./utils/wttpRpc";
+
+// Export the fetch-compatible API
+export { fetchWithClient } from "./utils/wttpFetch";
+
+// Export HTTP header mapping
+export { toHttpHeaders, fromHttpHeaders, parseETag, parseHttpDate } from "./utils/wttpHeaders";
+
+// Export the serializable response model
+export { WttpResponse, WTTP_RESPONSE_SCHEMA } from "./utils/wttpResponse";
+
+// Export runtime configuration loading and network alias resolution
+export {
+  WTTP_CONFIG_FILES,
+  loadWttpConfig,
+  mergeWttpConfig,
+  validateWttpConfig,
+  createNetworkAliases
+} from "./utils/wttpConfig";
+export type { WttpConfigLoadOptions, WttpConfigOverrides } from "./utils/wttpConfig";
+
+// Export configuration verification
+export { verifyWttpConfig, formatWttpConfigReport } from "./utils/wttpVerify";
+
+// Export WTTP URL network parsing
+export {
+  WTTP_NETWORK_PARAM,
+  toWttpUrl,
+  parseNetworkReference,
+  getUrlHostname,
+  formatWttpUrl
+} from "./utils/wttpUrl";
+
+// Export byte range parsing
+export {
+  MAX_RANGE_PARTS,
+  parseByteRanges,
+  resolveByteRanges,
+  formatContentRange,
+  toMultipartByteRanges
+} from "./utils/wttpRange";
+export type { WttpRangeSpec } from "./utils/wttpRange";
+
+// Export the response cache
+export {
+  WttpMemoryCacheStore,
+  WttpFileCacheStore,
+  DEFAULT_CACHE_MAX_ENTRIES,
+  getCacheKey,
+  getCacheAge,
+  getStaleness,
+  isWithinStaleWindow,
+  isFresh,
+  isCacheable,
+  hasValidator,
+  getValidators,
+  mergeNotModified
+} from "./utils/wttpCache";
+export type { WttpMemoryCacheOptions, WttpCacheValidators } from "./utils/wttpCache";
+
+// Export the ENS name cache
+export {
+  WttpMemoryEnsStore,
+  WttpFileEnsStore,
+  DEFAULT_ENS_NETWORK,
+  DEFAULT_ENS_TTL_MS,
+  DEFAULT_ENS_NEGATIVE_TTL_MS,
+  DEFAULT_ENS_MAX_ENTRIES,
+  getEnsKey,
+  isEnsEntryFresh
+} from "./utils/wttpEns";
+
+// Export body and metadata helpers
+export { createWttpBody } from "./utils/wttpBody";
+export {
+  EMPTY_CODE,
+  decodeMimeType,
+  encodeMimeType,
+  decodeCharset,
+  encodeCharset,
+  decodeEncoding,
+  encodeEncoding,
+  decodeLanguage,
+  encodeLanguage,
+  decodeWttpMetadata,
+  encodeWttpMetadata
+} from "./utils/wttpCodec";
+
+// Export the retry policy
+export { DEFAULT_RETRY_POLICY, isRetryableError } from "./utils/wttpRetry";
+
+// Export cancellation helpers
+export { createRequestSignal, withSignal, isAbortError } from "./utils/wttpAbort";
+export type { WttpAbortOptions, WttpRequestSignal } from "./utils/wttpAbort";
+
+// Export failure diagnosis
+export { diagnoseWttpError, decodeRevert } from "./utils/wttpDiagnostics";
+
+// Export error classes
+export {
+  WttpError,
+  WttpUrlError,
+  WttpNetworkError,
+  WttpEnsError,
+  WttpHostNotImplementedError,
+  WttpBadGatewayError,
+  WttpRpcError,
+  WttpTimeoutError,
+  WttpAbortError,
+  WttpStatusError,
+  WttpRedirectError,
+  WttpRangeError,
+  WttpNotCachedError,
+  WttpConfigError
+} from "./utils/wttpErrors";
+export type { WttpErrorCode, WttpErrorOptions } from "./utils/wttpErrors";
+
 // Export types and interfaces
 export type {
   WttpUrl,
   WttpConfig,
+  WttpHandlerConfig,
   WttpProvider,
   GETOptions,
+  GETStreamOptions,
   HEADOptions,
-  WttpNetworkConfig
+  OPTIONSOptions,
+  LOCATEOptions,
+  LOCATEIteratorOptions,
+  WttpDataPoint,
+  WttpNetworkConfig,
+  WttpRequestInit,
+  WttpRpcOptions,
+  WttpRpcStrategy,
+  WttpRpcEndpoint,
+  WttpRetryPolicy,
+  WttpResponseInfo,
+  WttpDiagnosis,
+  WttpDiagnostics,
+  WttpCheckStatus,
+  WttpCheckSkipReason,
+  WttpCheck,
+  WttpEndpointReport,
+  WttpNetworkReport,
+  WttpConfigReport,
+  WttpVerifyOptions,
+  WttpRevertReason,
+  WttpHEADResponse,
+  WttpGETResponse,
+  WttpBody,
+  WttpByteRange,
+  WttpRangePart,
+  WttpContentInfo,
+  WttpRedirectMode,
+  WttpRedirectHop,
+  WttpCacheControl,
+  WttpRedirect,
+  WttpResourceMetadata,
+  WttpResponseData,
+  WttpResponseJSON,
+  WttpCacheStatus,
+  WttpCacheMode,
+  WttpCacheEntry,
+  WttpCacheStore,
+  WttpCacheOptions,
+  WttpEnsConfig,
+  WttpEnsEntry,
+  WttpEnsStore,
+  WttpEnsCacheOptions,
+  WttpOPTIONSResponse,
+  WttpMethodName,
+  WttpLOCATEResponse
 } from "./interfaces/WTTPTypes";
 
 // Export contract interfaces
 export type {
   HEADResponseStruct,
-  GETResponseStruct
+  GETResponseStruct,
+  OPTIONSResponseStruct,
+  LOCATEResponseStruct
 } from "./interfaces/contracts/WTTPGatewayV3";
 
 // We'll handle the wttp.config export separately in the build process
\ No newline at end of file
@@ -1,25 +1,73 @@
 import { ethers } from "ethers";
 
 import { Web3Site } from "./contracts/Web3Site";
-import { RangeStruct, WTTPGatewayV3 } from "./contracts/WTTPGatewayV3";
+import { 
+    GETResponseStruct, 
+    HEADResponseStruct, 
+    LOCATEResponseStruct,
+    OPTIONSResponseStruct,
+    RangeStruct, 
+    WTTPGatewayV3 
+} from "./contracts/WTTPGatewayV3";
+import type { WttpRpcSession } from "../utils/wttpRpc";
 
 
 export type WttpNetworkConfig = {
     rpcList: string[];
     chainId: number;
     gateway: string | ethers.Addressable;
+    aliases?: string[];
+};
+
+export type WttpEnsConfig = {
+    network?: string;
+    rpcList?: string[];
+    chainId?: number;
+    registry?: string;
 };
 
 export type WttpConfig = {
     networks: {
         [key: string]: WttpNetworkConfig;
     };
+    ens?: WttpEnsConfig;
 };
 
 export type WttpHandlerConfig = {
     wttpConfig: WttpConfig;
     staticSigner?: boolean;
     signer?: ethers.Signer;
+    rpc?: WttpRpcOptions;
+    validationTtlMs?: number;
+    retry?: WttpRetryPolicy;
+    cache?: WttpCacheOptions;
+    ensCache?: WttpEnsCacheOptions | false;
+};
+
+export type WttpRpcStrategy = "ordered" | "health";
+
+export type WttpRpcOptions = {
+    strategy?: WttpRpcStrategy;
+    timeoutMs?: number;
+    maxFailures?: number;
+    ejectMs?: number;
+};
+
+export type WttpRetryPolicy = {
+    maxAttempts?: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    jitter?: number;
+    retryOn?: (error: unknown) => boolean;
+};
+
+export type WttpRpcEndpoint = {
+    url: string;
+    score: number;
+    latencyMs?: number;
+    failures: number;
+    ejectedUntil: number;
+    lastError?: string;
 };
 
 export type WttpUrl = {
@@ -32,14 +80,280 @@ export type WttpUrl = {
 export type WttpProvider = {
     gateway: WTTPGatewayV3;
     host?: Web3Site;
+    rpc?: WttpRpcSession;
+};
+
+export type WttpDiagnosis =
+    | "RPC_UNAVAILABLE"
+    | "TIMEOUT"
+    | "BAD_GATEWAY"
+    | "HOST_NOT_IMPLEMENTED"
+    | "CONTRACT_REVERT"
+    | "UNKNOWN";
+
+export type WttpRevertReason = {
+    name?: string;
+    reason?: string;
+    args?: string[];
+    data?: string;
+};
+
+export type WttpDiagnostics = {
+    status: number;
+    cause: WttpDiagnosis;
+    message: string;
+    revert?: WttpRevertReason;
+    network: string;
+    gateway: string;
+    host: string;
+    rpc?: string;
+};
+
+export type WttpCheckStatus = "pass" | "fail" | "skip";
+
+export type WttpCheckSkipReason = "endpoint-unreachable" | "wrong-chain" | "no-gateway-contract";
+
+export type WttpCheck = {
+    status: WttpCheckStatus;
+    latencyMs?: number;
+    message?: string;
+    reason?: WttpCheckSkipReason;
+};
+
+export type WttpEndpointReport = {
+    url: string;
+    ok: boolean;
+    chainId?: number;
+    latencyMs?: number;
+    checks: {
+        chainId: WttpCheck;
+        gatewayCode: WttpCheck;
+        gatewayProbe: WttpCheck;
+    };
+};
+
+export type WttpNetworkReport = {
+    network: string;
+    chainId: number;
+    gateway: string;
+    ok: boolean;
+    endpoints: WttpEndpointReport[];
+};
+
+export type WttpConfigReport = {
+    ok: boolean;
+    networks: WttpNetworkReport[];
+};
+
+export type WttpVerifyOptions = {
+    networks?: string[];
+    hosts?: { [network: string]: string };
+    timeoutMs?: number;
+};
+
+export type WttpMethodName =
+    | "HEAD"
+    | "GET"
+    | "POST"
+    | "PUT"
+    | "PATCH"
+    | "DELETE"
+    | "OPTIONS"
+    | "LOCATE"
+    | "DEFINE";
+
+export type WttpContentInfo = {
+    mimeType?: string;
+    charset?: string;
+    encoding?: string;
+    language?: string;
+    contentType?: string;
+};
+
+export type WttpRedirectMode = "follow" | "manual" | "error";
+
+export type WttpRedirectHop = {
+    url: string;
+    status: number;
+    location: string;
+};
+
+export type WttpCacheStatus = "HIT" | "MISS" | "REVALIDATED" | "STALE";
+
+export type WttpCacheMode = "default" | "no-store" | "reload" | "no-cache" | "force-cache" | "offline";
+
+export type WttpResponseInfo = {
+    url?: string;
+    redirects?: WttpRedirectHop[];
+    rpc?: string;
+    attempts?: number;
+    content?: WttpContentInfo;
+    diagnostics?: WttpDiagnostics;
+    cacheStatus?: WttpCacheStatus;
+    age?: number;
+    stale?: boolean;
+};
+
+export type WttpHEADResponse = HEADResponseStruct & WttpResponseInfo;
+
+export type WttpBody = {
+    body: Uint8Array;
+    bytes(): Uint8Array;
+    text(): string;
+    json<T = unknown>(): T;
+};
+
+export type WttpByteRange = {
+    start: number;
+    end: number;
+};
+
+export type WttpRangePart = WttpByteRange & {
+    body: Uint8Array;
+};
+
+export type WttpGETResponse = GETResponseStruct & WttpResponseInfo & WttpBody & {
+    parts?: WttpRangePart[];
+};
+
+export type WttpOPTIONSResponse = OPTIONSResponseStruct & WttpResponseInfo & {
+    methods: WttpMethodName[];
+};
+
+export type WttpLOCATEResponse = LOCATEResponseStruct & WttpResponseInfo;
+
+export type WttpCacheControl = {
+    maxAge: number;
+    noStore: boolean;
+    noCache: boolean;
+    immutableFlag: boolean;
+    publicFlag: boolean;
+};
+
+export type WttpRedirect = {
+    code: number;
+    location: string;
+};
+
+export type WttpResourceMetadata = {
+    mimeType: string;
+    charset: string;
+    encoding: string;
+    language: string;
+    size: number;
+    version: number;
+    lastModified?: Date;
+    header: string;
+};
+
+export type WttpResponseData = {
+    protocol: string;
+    status: number;
+    headers: {
+        methods: WttpMethodName[];
+        resourceAdmin: string;
+    };
+    cache: WttpCacheControl;
+    redirect: WttpRedirect;
+    metadata: WttpResourceMetadata;
+    etag: string;
+    range?: {
+        start: number;
+        end: number;
+    };
+    body?: Uint8Array;
+};
+
+export type WttpResponseJSON = Omit<WttpResponseData, "metadata" | "body"> & {
+    schema: number;
+    metadata: Omit<WttpResourceMetadata, "lastModified"> & {
+        lastModified?: string;
+    };
+    body?: string;
+};
+
+export type WttpCacheEntry = {
+    response: WttpResponseData;
+    storedAt: number;
+};
+
+export type WttpCacheStore = {
+    get(key: string): Promise<WttpCacheEntry | undefined>;
+    set(key: string, entry: WttpCacheEntry): Promise<void>;
+    delete(key: string): Promise<void>;
+    clear(): Promise<void>;
+};
+
+export type WttpCacheOptions = {
+    store: WttpCacheStore;
+    shared?: boolean;
+    mode?: WttpCacheMode;
+    staleIfError?: number;
+    staleWhileRevalidate?: number;
+};
+
+export type WttpEnsEntry = {
+    address: string | null;
+    expiresAt: number;
+};
+
+export type WttpEnsStore = {
+    get(key: string): Promise<WttpEnsEntry | undefined>;
+    set(key: string, entry: WttpEnsEntry): Promise<void>;
+    delete(key: string): Promise<void>;
+    clear(): Promise<void>;
+};
+
+export type WttpEnsCacheOptions = {
+    store?: WttpEnsStore;
+    ttlMs?: number;
+    negativeTtlMs?: number;
 };
 
 export type HEADOptions = {
     ifModifiedSince?: bigint;
     ifNoneMatch?: string;
     signer?: ethers.Signer;
+    signal?: AbortSignal;
+    timeoutMs?: number;
+    retry?: WttpRetryPolicy;
+    redirect?: WttpRedirectMode;
+    maxRedirects?: number;
+    cache?: WttpCacheMode;
+    staleIfError?: number;
+    staleWhileRevalidate?: number;
 };
 
 export type GETOptions = HEADOptions & {
-    range?: RangeStruct;
+    range?: RangeStruct | string;
+    concurrency?: number;
+};
+
+export type GETStreamOptions = HEADOptions & {
+    chunkSize?: number;
+    concurrency?: number;
+};
+
+export type OPTIONSOptions = {
+    signer?: ethers.Signer;
+    signal?: AbortSignal;
+    timeoutMs?: number;
+    retry?: WttpRetryPolicy;
+};
+
+export type LOCATEOptions = HEADOptions & {
+    chunkRange?: RangeStruct;
+};
+
+export type LOCATEIteratorOptions = LOCATEOptions & {
+    pageSize?: number;
+};
+
+export type WttpDataPoint = {
+    index: number;
+    dataPoint: string;
+};
+
+export type WttpRequestInit = RequestInit & {
+    signer?: ethers.Signer;
 };
\ No newline at end of file
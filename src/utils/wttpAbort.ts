@@ -0,0 +1,108 @@
+/**
+ * WTTP Abort Module
+ *
+ * This module bounds the latency of WTTP requests and lets callers cancel them.
+ * A request signal combines the caller's `AbortSignal` with an optional timeout,
+ * and every step of a request (ENS resolution, contract probing and the gateway
+ * call) is raced against it so a stalled RPC cannot hang the caller.
+ */
+
+import { WttpAbortError, WttpTimeoutError } from "./wttpErrors";
+
+/**
+ * Cancellation settings accepted by WTTP requests
+ */
+export type WttpAbortOptions = {
+    signal?: AbortSignal;
+    timeoutMs?: number;
+};
+
+/**
+ * The signal of a single request and the function releasing its listeners and timer
+ */
+export type WttpRequestSignal = {
+    signal?: AbortSignal;
+    clear(): void;
+};
+
+/**
+ * Creates the signal bounding a single request
+ * The signal aborts with a WttpAbortError when the caller aborts, or with a WttpTimeoutError when the timeout expires
+ *
+ * @param options - The caller's signal and timeout
+ * @param url - The URL being requested, reported in the errors
+ * @returns The request signal, without a signal if neither option is set
+ */
+export function createRequestSignal(options?: WttpAbortOptions, url?: URL | string): WttpRequestSignal {
+    const callerSignal = options?.signal;
+    const timeoutMs = options?.timeoutMs;
+    if (!callerSignal && !timeoutMs) {
+        return { clear: () => {} };
+    }
+
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(
+        new WttpAbortError(`Request aborted: ${url}`, { url, cause: callerSignal?.reason })
+    );
+    if (callerSignal?.aborted) {
+        onAbort();
+    } else {
+        callerSignal?.addEventListener("abort", onAbort, { once: true });
+    }
+
+    const timer = timeoutMs ? setTimeout(() => controller.abort(
+        new WttpTimeoutError(`Request timed out after ${timeoutMs}ms: ${url}`, { url })
+    ), timeoutMs) : undefined;
+
+    return {
+        signal: controller.signal,
+        clear: () => {
+            clearTimeout(timer);
+            callerSignal?.removeEventListener("abort", onAbort);
+        }
+    };
+}
+
+/**
+ * Races a promise against a request signal
+ * The underlying call keeps running, but the caller is released as soon as the signal aborts
+ *
+ * @param promise - The promise to race
+ * @param signal - Optional request signal
+ * @returns Promise resolving to the result of the promise
+ * @throws The abort reason (WttpAbortError or WttpTimeoutError) if the signal aborts first
+ */
+export function withSignal<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) {
+        return promise;
+    }
+    if (signal.aborted) {
+        // Avoid an unhandled rejection from the abandoned call
+        promise.catch(() => {});
+        return Promise.reject(signal.reason);
+    }
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(signal.reason);
+        signal.addEventListener("abort", onAbort, { once: true });
+        promise.then(
+            (value) => {
+                signal.removeEventListener("abort", onAbort);
+                resolve(value);
+            },
+            (error) => {
+                signal.removeEventListener("abort", onAbort);
+                reject(error);
+            }
+        );
+    });
+}
+
+/**
+ * Checks if an error was caused by an aborted or timed out request signal
+ *
+ * @param error - The error to check
+ * @returns True if the request was aborted or timed out
+ */
+export function isAbortError(error: unknown): error is WttpAbortError | WttpTimeoutError {
+    return error instanceof WttpAbortError || error instanceof WttpTimeoutError;
+}
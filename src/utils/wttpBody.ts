@@ -0,0 +1,62 @@
+/**
+ * WTTP Body Module
+ *
+ * This module turns the hex encoded `data` of a GET response into a binary body.
+ * The hex string is converted once into a `Uint8Array`, which is then shared by
+ * the `bytes()`, `text()` and `json()` readers instead of being decoded again by
+ * every consumer.
+ */
+
+import { ethers } from "ethers";
+
+import { WttpBody } from "../interfaces/WTTPTypes";
+import { decodeCharset } from "./wttpCodec";
+
+/**
+ * Creates the binary body of a response
+ *
+ * @param data - The response data, hex encoded or raw bytes
+ * @param charset - The bytes2 charset from the resource metadata, used by `text()`
+ * @returns The body and its readers
+ */
+export function createWttpBody(data: ethers.BytesLike, charset?: ethers.BytesLike): WttpBody {
+    const body = toBodyBytes(data);
+    const text = () => decodeText(body, decodeCharset(charset));
+    return {
+        body,
+        bytes: () => body,
+        text,
+        json: <T = unknown>() => JSON.parse(text()) as T
+    };
+}
+
+/**
+ * Converts response data to bytes
+ * Error responses may carry a plain text message instead of hex encoded data
+ *
+ * @param data - The response data
+ * @returns The body bytes, sharing the buffer of `data` when it already is a Uint8Array
+ */
+export function toBodyBytes(data: ethers.BytesLike): Uint8Array {
+    if (typeof data === "string" && !ethers.isHexString(data)) {
+        return ethers.toUtf8Bytes(data);
+    }
+    return ethers.getBytes(data);
+}
+
+/**
+ * Decodes body bytes as text
+ *
+ * @param body - The body bytes
+ * @param charset - The charset label, UTF-8 if not set or not supported
+ * @returns The decoded text
+ */
+function decodeText(body: Uint8Array, charset?: string): string {
+    let decoder: TextDecoder;
+    try {
+        decoder = new TextDecoder(charset || "utf-8");
+    } catch {
+        decoder = new TextDecoder("utf-8");
+    }
+    return decoder.decode(body);
+}
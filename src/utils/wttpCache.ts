@@ -0,0 +1,357 @@
+/**
+ * WTTP Cache Module
+ *
+ * This module provides the client-side response cache. Resources declare how they
+ * may be cached in `headerInfo.cache`, with the same meaning as the HTTP
+ * Cache-Control directives:
+ * - `noStore` responses are never stored
+ * - `noCache` responses are stored, but checked with the gateway before every use
+ * - `immutableFlag` responses never go stale
+ * - `maxAge` responses are fresh for that many seconds after they were fetched
+ * - Only `publicFlag` responses are kept in shared stores
+ *
+ * Stale entries are revalidated with a conditional request carrying their `etag`
+ * and `lastModified`, so an unchanged resource costs a 304 Not Modified response
+ * instead of its full body. Stale entries can also be served while they are
+ * revalidated in the background, or when the gateway cannot be reached.
+ *
+ * Entries are kept in a WttpCacheStore. An in-memory LRU store and a filesystem
+ * store are provided, and any key-value store can be plugged in.
+ */
+
+import { ethers } from "ethers";
+
+import { RangeStruct } from "../interfaces/contracts/WTTPGatewayV3";
+import {
+    WttpCacheEntry,
+    WttpCacheStore,
+    WttpResponseData,
+    WttpResponseJSON
+} from "../interfaces/WTTPTypes";
+import { WttpResponse } from "./wttpResponse";
+
+/**
+ * Default maximum number of entries kept by a WttpMemoryCacheStore
+ */
+export const DEFAULT_CACHE_MAX_ENTRIES = 500;
+
+/**
+ * Status codes of responses that can be stored
+ */
+const CACHEABLE_STATUS = [200, 206, 300, 301, 308];
+
+/**
+ * Conditions of a request revalidating a cache entry
+ */
+export type WttpCacheValidators = {
+    ifNoneMatch?: string;
+    ifModifiedSince?: bigint;
+};
+
+/**
+ * Settings of a WttpMemoryCacheStore
+ */
+export type WttpMemoryCacheOptions = {
+    maxEntries?: number;
+    maxBytes?: number;
+};
+
+/**
+ * Entry of a WttpFileCacheStore as written to disk
+ */
+type WttpCacheFile = {
+    key: string;
+    storedAt: number;
+    response: WttpResponseJSON;
+};
+
+/**
+ * Gets the key of a HEAD or GET request in the response cache
+ *
+ * @param method - The request method
+ * @param url - The WTTP URL, with the network in its port
+ * @param range - The requested byte range of a GET request
+ * @returns The cache key
+ */
+export function getCacheKey(method: "HEAD" | "GET", url: URL, range?: RangeStruct): string {
+    const target = new URL(url);
+    target.hash = "";
+    return range ? `${method} ${target.href} ${range.start}-${range.end}` : `${method} ${target.href}`;
+}
+
+/**
+ * Gets the age of a cache entry
+ *
+ * @param entry - The cache entry
+ * @param now - The current time in milliseconds
+ * @returns The number of whole seconds since the response was fetched
+ */
+export function getCacheAge(entry: WttpCacheEntry, now: number = Date.now()): number {
+    return Math.max(Math.floor((now - entry.storedAt) / 1000), 0);
+}
+
+/**
+ * Checks if a cache entry can be used without asking the gateway
+ *
+ * @param entry - The cache entry
+ * @param now - The current time in milliseconds
+ * @returns True if the entry is fresh
+ */
+export function isFresh(entry: WttpCacheEntry, now: number = Date.now()): boolean {
+    const { cache } = entry.response;
+    if (cache.noCache) return false;
+    if (cache.immutableFlag) return true;
+    return getCacheAge(entry, now) < cache.maxAge;
+}
+
+/**
+ * Gets how long a cache entry has been stale
+ *
+ * @param entry - The cache entry
+ * @param now - The current time in milliseconds
+ * @returns The number of whole seconds since the entry went stale, 0 while it is fresh
+ */
+export function getStaleness(entry: WttpCacheEntry, now: number = Date.now()): number {
+    if (isFresh(entry, now)) return 0;
+    const { cache } = entry.response;
+    return Math.max(getCacheAge(entry, now) - (cache.noCache ? 0 : cache.maxAge), 0);
+}
+
+/**
+ * Checks if a stale cache entry may still be served
+ *
+ * @param entry - The cache entry
+ * @param window - How many seconds after going stale the entry may be served, 0 to never serve it
+ * @param now - The current time in milliseconds
+ * @returns True if the entry went stale no longer than `window` seconds ago
+ */
+export function isWithinStaleWindow(entry: WttpCacheEntry, window: number, now: number = Date.now()): boolean {
+    return window > 0 && getStaleness(entry, now) <= window;
+}
+
+/**
+ * Checks if a response may be stored
+ * Responses that can neither be fresh nor revalidated with their etag or last modified time are not worth storing
+ *
+ * @param response - The response
+ * @param shared - True if the store is shared by several users
+ * @returns True if the response may be stored
+ */
+export function isCacheable(response: WttpResponseData, shared = false): boolean {
+    const { cache } = response;
+    if (cache.noStore || !CACHEABLE_STATUS.includes(response.status)) return false;
+    if (shared && !cache.publicFlag) return false;
+    return cache.immutableFlag || cache.maxAge > 0 || hasValidator(response) || response.metadata.lastModified !== undefined;
+}
+
+/**
+ * Checks if a response carries an etag the gateway can validate it with
+ *
+ * @param response - The response
+ * @returns True if the etag is set
+ */
+export function hasValidator(response: WttpResponseData): boolean {
+    return !/^0x0*$/.test(response.etag);
+}
+
+/**
+ * Gets the conditions that revalidate a stored response
+ *
+ * @param response - The stored response
+ * @returns The `ifNoneMatch` etag and the `ifModifiedSince` time in seconds, each only if the response has one
+ */
+export function getValidators(response: WttpResponseData): WttpCacheValidators {
+    const lastModified = response.metadata.lastModified?.getTime() ?? 0;
+    return {
+        ifNoneMatch: hasValidator(response) ? response.etag : undefined,
+        ifModifiedSince: lastModified > 0 ? BigInt(Math.floor(lastModified / 1000)) : undefined
+    };
+}
+
+/**
+ * Updates a stored response with a 304 Not Modified response
+ * The stored status, metadata, range and body are kept, while the cache directives,
+ * allowed methods and etag sent with the 304 replace the stored ones
+ *
+ * @param cached - The stored response
+ * @param notModified - The 304 response returned by the gateway
+ * @returns The updated response
+ */
+export function mergeNotModified(cached: WttpResponseData, notModified: WttpResponseData): WttpResponse {
+    return new WttpResponse({
+        ...cached,
+        protocol: notModified.protocol || cached.protocol,
+        headers: notModified.headers,
+        cache: notModified.cache,
+        etag: hasValidator(notModified) ? notModified.etag : cached.etag
+    });
+}
+
+/**
+ * An in-memory cache store that evicts the least recently used entries
+ */
+export class WttpMemoryCacheStore implements WttpCacheStore {
+    /**
+     * Maximum number of entries kept
+     */
+    readonly maxEntries: number;
+
+    /**
+     * Maximum total body size kept, in bytes
+     */
+    readonly maxBytes: number;
+
+    /**
+     * The entries, from least to most recently used
+     */
+    private entries: Map<string, WttpCacheEntry> = new Map();
+
+    /**
+     * Total body size of the entries, in bytes
+     */
+    private bytes = 0;
+
+    /**
+     * Creates an in-memory cache store
+     *
+     * @param options - Optional limits on the number of entries and their total body size
+     */
+    constructor(options: WttpMemoryCacheOptions = {}) {
+        this.maxEntries = Math.max(options.maxEntries ?? DEFAULT_CACHE_MAX_ENTRIES, 1);
+        this.maxBytes = options.maxBytes ?? Infinity;
+    }
+
+    /**
+     * The number of entries kept
+     */
+    get size(): number {
+        return this.entries.size;
+    }
+
+    async get(key: string): Promise<WttpCacheEntry | undefined> {
+        const entry = this.entries.get(key);
+        if (entry) {
+            // Move the entry to the most recently used end
+            this.entries.delete(key);
+            this.entries.set(key, entry);
+        }
+        return entry;
+    }
+
+    async set(key: string, entry: WttpCacheEntry): Promise<void> {
+        await this.delete(key);
+        const size = entry.response.body?.length ?? 0;
+        if (size > this.maxBytes) return;
+        this.entries.set(key, entry);
+        this.bytes += size;
+        for (const [oldest, evicted] of this.entries) {
+            if (this.entries.size <= this.maxEntries && this.bytes <= this.maxBytes) break;
+            this.entries.delete(oldest);
+            this.bytes -= evicted.response.body?.length ?? 0;
+        }
+    }
+
+    async delete(key: string): Promise<void> {
+        const entry = this.entries.get(key);
+        if (entry) {
+            this.entries.delete(key);
+            this.bytes -= entry.response.body?.length ?? 0;
+        }
+    }
+
+    async clear(): Promise<void> {
+        this.entries.clear();
+        this.bytes = 0;
+    }
+}
+
+/**
+ * A cache store that keeps each entry in a JSON file, so the cache survives restarts
+ * Requires Node.js, files are named after the hash of their key
+ */
+export class WttpFileCacheStore implements WttpCacheStore {
+    /**
+     * The directory holding the entries
+     */
+    readonly directory: string;
+
+    /**
+     * Creates a filesystem cache store
+     *
+     * @param directory - The directory holding the entries, created on first write
+     */
+    constructor(directory: string) {
+        this.directory = directory.replace(/[\\/]+$/, "");
+    }
+
+    async get(key: string): Promise<WttpCacheEntry | undefined> {
+        const fs = await import("fs/promises");
+        let file: WttpCacheFile;
+        try {
+            file = JSON.parse(await fs.readFile(this.getPath(key), "utf8"));
+            // Guard against files that do not belong to this key
+            if (file.key !== key) return undefined;
+            return { response: WttpResponse.fromJSON(file.response), storedAt: file.storedAt };
+        } catch (error) {
+            // Missing and unreadable entries are cache misses
+            if (isMissingFile(error) || error instanceof SyntaxError || error instanceof TypeError) {
+                return undefined;
+            }
+            throw error;
+        }
+    }
+
+    async set(key: string, entry: WttpCacheEntry): Promise<void> {
+        const fs = await import("fs/promises");
+        const file: WttpCacheFile = {
+            key,
+            storedAt: entry.storedAt,
+            response: new WttpResponse(entry.response).toJSON()
+        };
+        const path = this.getPath(key);
+        // Write to a temporary file first, so readers never see a partial entry
+        const temporary = `${path}.${ethers.hexlify(ethers.randomBytes(4)).slice(2)}.tmp`;
+        await fs.mkdir(this.directory, { recursive: true });
+        await fs.writeFile(temporary, JSON.stringify(file));
+        await fs.rename(temporary, path);
+    }
+
+    async delete(key: string): Promise<void> {
+        const fs = await import("fs/promises");
+        await fs.rm(this.getPath(key), { force: true });
+    }
+
+    async clear(): Promise<void> {
+        const fs = await import("fs/promises");
+        let names: string[];
+        try {
+            names = await fs.readdir(this.directory);
+        } catch (error) {
+            if (isMissingFile(error)) return;
+            throw error;
+        }
+        // Only remove files written by this store
+        const entries = names.filter((name) => /^[0-9a-f]{64}\.json$/.test(name));
+        await Promise.all(entries.map((name) => fs.rm(`${this.directory}/${name}`, { force: true })));
+    }
+
+    /**
+     * Gets the file path of an entry
+     *
+     * @param key - The cache key
+     * @returns The file path
+     */
+    private getPath(key: string): string {
+        return `${this.directory}/${ethers.id(key).slice(2)}.json`;
+    }
+}
+
+/**
+ * Checks if a filesystem error means the file or directory does not exist
+ *
+ * @param error - The error thrown by the filesystem call
+ * @returns True if the path does not exist
+ */
+function isMissingFile(error: unknown): boolean {
+    return (error as { code?: string })?.code === "ENOENT";
+}
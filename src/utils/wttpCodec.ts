@@ -0,0 +1,267 @@
+/**
+ * WTTP Codec Module
+ *
+ * This module converts the bytes2 codes stored in WTTP resource metadata to and
+ * from their standard names. Each code is two ASCII characters, e.g. `th` (0x7468)
+ * for the text/html MIME type or `u8` (0x7538) for the UTF-8 charset, and a zero
+ * code means the field is not set.
+ *
+ * The module includes codecs for:
+ * - MIME types
+ * - IANA charsets
+ * - Content encodings
+ * - BCP-47 language tags
+ */
+
+import { ethers } from "ethers";
+
+import { WttpContentInfo } from "../interfaces/WTTPTypes";
+
+/**
+ * The bytes2 value of a field that is not set
+ */
+export const EMPTY_CODE = "0x0000";
+
+/**
+ * MIME type codes, grouped by the first character: t(ext), a(pplication), i(mage), u (audio), v(ideo) and f(ont)
+ */
+const MIME_TYPES: Record<string, string> = {
+    th: "text/html",
+    tc: "text/css",
+    tj: "text/javascript",
+    tp: "text/plain",
+    tm: "text/markdown",
+    tx: "text/xml",
+    tv: "text/csv",
+    aj: "application/json",
+    al: "application/ld+json",
+    ax: "application/xml",
+    ap: "application/pdf",
+    az: "application/zip",
+    ag: "application/gzip",
+    aw: "application/wasm",
+    ao: "application/octet-stream",
+    ip: "image/png",
+    ij: "image/jpeg",
+    ig: "image/gif",
+    is: "image/svg+xml",
+    iw: "image/webp",
+    ia: "image/avif",
+    ii: "image/x-icon",
+    um: "audio/mpeg",
+    uw: "audio/wav",
+    uo: "audio/ogg",
+    vm: "video/mp4",
+    vw: "video/webm",
+    vo: "video/ogg",
+    fw: "font/woff",
+    f2: "font/woff2",
+    ft: "font/ttf",
+    fo: "font/otf"
+};
+
+/**
+ * Charset codes and their WHATWG encoding labels
+ */
+const CHARSETS: Record<string, string> = {
+    u8: "utf-8",
+    u6: "utf-16",
+    ul: "utf-16le",
+    ub: "utf-16be",
+    as: "us-ascii",
+    l1: "iso-8859-1",
+    w1: "windows-1252",
+    sj: "shift_jis",
+    ej: "euc-jp",
+    ek: "euc-kr",
+    gb: "gb18030",
+    b5: "big5"
+};
+
+/**
+ * Content encoding codes
+ */
+const ENCODINGS: Record<string, string> = {
+    id: "identity",
+    gz: "gzip",
+    br: "br",
+    df: "deflate",
+    zs: "zstd",
+    cp: "compress"
+};
+
+/**
+ * Reads a bytes2 metadata code as its two character key
+ *
+ * @param value - The bytes2 value, e.g. `0x7468`
+ * @returns The code, or undefined if the value is empty or zero
+ */
+function toCode(value: ethers.BytesLike | undefined): string | undefined {
+    if (!value || (typeof value === "string" && !ethers.isHexString(value))) {
+        return undefined;
+    }
+    const bytes = ethers.getBytes(value);
+    if (bytes.length !== 2 || (bytes[0] === 0 && bytes[1] === 0)) {
+        return undefined;
+    }
+    return String.fromCharCode(bytes[0], bytes[1]);
+}
+
+/**
+ * Encodes a two character key as a bytes2 metadata code
+ *
+ * @param code - The two character key
+ * @returns The bytes2 value
+ */
+function fromCode(code: string): string {
+    return ethers.hexlify(Uint8Array.from([code.charCodeAt(0), code.charCodeAt(1)]));
+}
+
+/**
+ * Finds the key of a name in a code table
+ *
+ * @param table - The code table
+ * @param name - The name to look up, compared case insensitively
+ * @returns The key, or undefined if the name is unknown
+ */
+function findCode(table: Record<string, string>, name: string): string | undefined {
+    const lower = name.trim().toLowerCase();
+    return Object.keys(table).find((code) => table[code].toLowerCase() === lower);
+}
+
+/**
+ * Decodes the bytes2 MIME type of a resource
+ *
+ * @param value - The `metadata.mimeType` value
+ * @returns The MIME type (e.g. `text/html`), or undefined if not set or unknown
+ */
+export function decodeMimeType(value: ethers.BytesLike | undefined): string | undefined {
+    const code = toCode(value);
+    return code ? MIME_TYPES[code] : undefined;
+}
+
+/**
+ * Encodes a MIME type as a bytes2 metadata code
+ * Parameters such as `; charset=utf-8` are ignored, use encodeCharset for the charset
+ *
+ * @param mimeType - The MIME type (e.g. `text/html`)
+ * @returns The bytes2 value, or `0x0000` if the MIME type is unknown
+ */
+export function encodeMimeType(mimeType: string): string {
+    const code = findCode(MIME_TYPES, mimeType.split(";")[0]);
+    return code ? fromCode(code) : EMPTY_CODE;
+}
+
+/**
+ * Decodes the bytes2 charset of a resource
+ *
+ * @param value - The `metadata.charset` value
+ * @returns The charset label (e.g. `utf-8`), or undefined if not set or unknown
+ */
+export function decodeCharset(value: ethers.BytesLike | undefined): string | undefined {
+    const code = toCode(value);
+    return code ? CHARSETS[code] : undefined;
+}
+
+/**
+ * Encodes a charset label as a bytes2 metadata code
+ *
+ * @param charset - The charset label (e.g. `utf-8`)
+ * @returns The bytes2 value, or `0x0000` if the charset is unknown
+ */
+export function encodeCharset(charset: string): string {
+    const code = findCode(CHARSETS, charset);
+    return code ? fromCode(code) : EMPTY_CODE;
+}
+
+/**
+ * Decodes the bytes2 content encoding of a resource
+ *
+ * @param value - The `metadata.encoding` value
+ * @returns The content encoding (e.g. `gzip`), or undefined if not set or unknown
+ */
+export function decodeEncoding(value: ethers.BytesLike | undefined): string | undefined {
+    const code = toCode(value);
+    return code ? ENCODINGS[code] : undefined;
+}
+
+/**
+ * Encodes a content encoding as a bytes2 metadata code
+ *
+ * @param encoding - The content encoding (e.g. `gzip`)
+ * @returns The bytes2 value, or `0x0000` if the encoding is unknown
+ */
+export function encodeEncoding(encoding: string): string {
+    const code = findCode(ENCODINGS, encoding);
+    return code ? fromCode(code) : EMPTY_CODE;
+}
+
+/**
+ * Decodes the bytes2 language of a resource
+ * The code holds the two letter primary language subtag of a BCP-47 tag
+ *
+ * @param value - The `metadata.language` value
+ * @returns The language tag (e.g. `en`), or undefined if not set or not a language subtag
+ */
+export function decodeLanguage(value: ethers.BytesLike | undefined): string | undefined {
+    const code = toCode(value)?.toLowerCase();
+    return code && /^[a-z]{2}$/.test(code) ? code : undefined;
+}
+
+/**
+ * Encodes a BCP-47 language tag as a bytes2 metadata code
+ * Only the primary language subtag is stored, so `en-US` is encoded as `en`
+ *
+ * @param language - The language tag (e.g. `en-US`)
+ * @returns The bytes2 value, or `0x0000` if the tag does not start with a two letter language
+ */
+export function encodeLanguage(language: string): string {
+    const code = language.trim().split(/[-_]/)[0].toLowerCase();
+    return /^[a-z]{2}$/.test(code) ? fromCode(code) : EMPTY_CODE;
+}
+
+/**
+ * Decodes the bytes2 fields of resource metadata
+ *
+ * @param metadata - The resource metadata
+ * @returns The decoded fields and the matching Content-Type
+ */
+export function decodeWttpMetadata(metadata: {
+    mimeType: ethers.BytesLike;
+    charset: ethers.BytesLike;
+    encoding: ethers.BytesLike;
+    language: ethers.BytesLike;
+}): WttpContentInfo {
+    const mimeType = decodeMimeType(metadata.mimeType);
+    const charset = decodeCharset(metadata.charset);
+    return {
+        mimeType,
+        charset,
+        encoding: decodeEncoding(metadata.encoding),
+        language: decodeLanguage(metadata.language),
+        contentType: mimeType && (charset ? `${mimeType}; charset=${charset}` : mimeType)
+    };
+}
+
+/**
+ * Encodes content information as the bytes2 fields of resource metadata, for write operations
+ * A `charset` parameter of `contentType` is used when `charset` is not given
+ *
+ * @param content - The content information
+ * @returns The bytes2 mimeType, charset, encoding and language fields
+ */
+export function encodeWttpMetadata(content: WttpContentInfo): {
+    mimeType: string;
+    charset: string;
+    encoding: string;
+    language: string;
+} {
+    const mimeType = content.mimeType || content.contentType;
+    const charset = content.charset || content.contentType?.match(/;\s*charset=([^;\s]+)/i)?.[1];
+    return {
+        mimeType: mimeType ? encodeMimeType(mimeType) : EMPTY_CODE,
+        charset: charset ? encodeCharset(charset.replace(/"/g, "")) : EMPTY_CODE,
+        encoding: content.encoding ? encodeEncoding(content.encoding) : EMPTY_CODE,
+        language: content.language ? encodeLanguage(content.language) : EMPTY_CODE
+    };
+}
@@ -0,0 +1,522 @@
+/**
+ * WTTP Config Module
+ *
+ * This module loads, validates and indexes WTTP configurations.
+ *
+ * `loadWttpConfig` builds a configuration at runtime, so RPC URLs and gateway
+ * addresses can change without a rebuild. Each layer overrides the one before it:
+ * 1. The built-in defaults from wttp.config
+ * 2. A `wttp.config.json` found in the working directory or one of its parents up to the package root,
+ *    or the JSON or TypeScript file given as `file`
+ * 3. Environment variables such as `WTTP_NETWORK_SEPOLIA_RPC`, `WTTP_NETWORK_MAINNET_GATEWAY` and `WTTP_ENS_RPC`
+ * 4. Overrides passed in code
+ *
+ * A network can be referred to by:
+ * - Its name, the key under `networks`, e.g. `sepolia`
+ * - Its chain ID, e.g. `11155111`
+ * - Any of its `aliases`, e.g. `seth`
+ *
+ * References are matched case-insensitively, and a reference that would point at
+ * two networks is reported as a configuration error.
+ */
+
+// Import from the root directory for compatibility with the build process
+import { config as defaultConfig } from "../../wttp.config";
+import { ethers } from "ethers";
+
+import { WttpConfig, WttpEnsConfig, WttpNetworkConfig } from "../interfaces/WTTPTypes";
+import { WttpConfigError } from "./wttpErrors";
+
+/**
+ * The configuration files looked for by loadWttpConfig, in order of preference
+ */
+export const WTTP_CONFIG_FILES = ["wttp.config.json"];
+
+/**
+ * Settings of a network or of ENS resolution that replace the configured ones, or null to remove them
+ */
+export type WttpConfigOverrides = {
+    networks?: {
+        [name: string]: Partial<WttpNetworkConfig> | null;
+    };
+    ens?: WttpEnsConfig | null;
+};
+
+/**
+ * Settings of loadWttpConfig
+ */
+export type WttpConfigLoadOptions = {
+    defaults?: WttpConfig;
+    cwd?: string;
+    file?: string | false;
+    env?: Record<string, string | undefined> | false;
+    overrides?: WttpConfigOverrides;
+    onWarning?: (message: string) => void;
+};
+
+/**
+ * Where an invalid setting comes from
+ */
+type WttpConfigErrorContext = {
+    source?: string;
+    network?: string;
+};
+
+/**
+ * Characters allowed in a network alias, so it can be written as a host label
+ */
+const ALIAS_PATTERN = /^[a-z0-9_-]+$/i;
+
+/**
+ * The settings of a network
+ */
+const NETWORK_KEYS = ["rpcList", "chainId", "gateway", "aliases"];
+
+/**
+ * The settings of ENS resolution
+ */
+const ENS_KEYS = ["network", "rpcList", "chainId", "registry"];
+
+/**
+ * Matches the environment variables setting a network, e.g. `WTTP_NETWORK_SEPOLIA_RPC`
+ */
+const ENV_PATTERN = /^WTTP_NETWORK_([A-Z0-9_]+?)_(RPC|GATEWAY|CHAIN_ID|ALIASES)$/;
+
+/**
+ * Matches the environment variables setting ENS resolution, e.g. `WTTP_ENS_RPC`
+ */
+const ENS_ENV_PATTERN = /^WTTP_ENS_(NETWORK|RPC|CHAIN_ID|REGISTRY)$/;
+
+/**
+ * Loads the WTTP configuration from the built-in defaults, a configuration file, environment variables and overrides
+ * Requires Node.js unless both the file and the environment variables are skipped
+ *
+ * @param options - Optional settings:
+ *   - `defaults`: the configuration the layers apply to, the bundled wttp.config by default
+ *   - `cwd`: the directory the file is looked for from, up to the package root, the working directory by default
+ *   - `file`: the path of a JSON or TypeScript configuration file, or false to skip the file
+ *   - `env`: the environment variables, `process.env` by default, or false to skip them
+ *   - `overrides`: settings applied last
+ *   - `onWarning`: called with the reason a TypeScript file given as `file` is skipped, nothing is reported by default
+ * @returns Promise resolving to the validated configuration
+ * @throws WttpConfigError if a file cannot be read, or a setting is invalid, pointing at the offending key
+ */
+export async function loadWttpConfig(options: WttpConfigLoadOptions = {}): Promise<WttpConfig> {
+    let config = options.defaults ?? defaultConfig;
+
+    const file = options.file === false ? undefined : await findConfigFile(options.file, options.cwd);
+    const layer = file ? await readConfigFile(file, options.onWarning ?? (() => {})) : undefined;
+    if (file && layer !== undefined) {
+        validateWttpConfig(layer, { partial: true, source: file });
+        config = mergeWttpConfig(config, layer);
+    }
+
+    const env = options.env === false ? undefined : options.env ?? (typeof process === "undefined" ? undefined : process.env);
+    if (env) {
+        config = mergeWttpConfig(config, parseConfigEnv(env, config));
+    }
+
+    if (options.overrides) {
+        validateWttpConfig(options.overrides, { partial: true, source: "overrides" });
+        config = mergeWttpConfig(config, options.overrides);
+    }
+
+    validateWttpConfig(config);
+    return config;
+}
+
+/**
+ * Applies overrides to a configuration
+ * Each network and ENS setting given replaces the configured one, and networks or an `ens` section set to null are removed
+ *
+ * @param config - The configuration
+ * @param overrides - The settings to apply
+ * @returns A new configuration, the input is not modified
+ */
+export function mergeWttpConfig(config: WttpConfig, overrides: WttpConfigOverrides): WttpConfig {
+    const networks = { ...config.networks };
+    for (const [name, network] of Object.entries(overrides.networks ?? {})) {
+        if (network === null) {
+            delete networks[name];
+        } else {
+            networks[name] = { ...networks[name], ...network } as WttpNetworkConfig;
+        }
+    }
+    const merged: WttpConfig = { ...config, networks };
+    if (overrides.ens === null) {
+        delete merged.ens;
+    } else if (overrides.ens) {
+        merged.ens = { ...config.ens, ...overrides.ens };
+    }
+    return merged;
+}
+
+/**
+ * Checks the shape of a configuration
+ *
+ * @param config - The configuration, or a layer of overrides
+ * @param options - `partial` to allow missing settings, as in a file or overrides layer, and the `source` named in errors
+ * @throws WttpConfigError pointing at the first offending key
+ */
+export function validateWttpConfig(config: unknown, options: { partial?: boolean; source?: string } = {}): asserts config is WttpConfig {
+    const { source } = options;
+    const fail = (key: string, message: string): never => {
+        throw configError(key, message, { source });
+    };
+
+    if (!isObject(config)) {
+        fail("(root)", "expected an object");
+    }
+    const root = config as Record<string, unknown>;
+    for (const key of Object.keys(root)) {
+        if (key !== "networks" && key !== "ens") fail(key, "unknown setting");
+    }
+    if (root.ens !== undefined && !(root.ens === null && options.partial)) {
+        validateEnsConfig(root.ens, options);
+    }
+    if (root.networks === undefined && options.partial) return;
+    if (!isObject(root.networks)) {
+        fail("networks", "expected an object of networks");
+    }
+
+    for (const [name, network] of Object.entries(root.networks as Record<string, unknown>)) {
+        const key = `networks.${name}`;
+        if (network === null && options.partial) continue;
+        if (!isObject(network)) {
+            fail(key, "expected an object");
+        }
+        const settings = network as Record<string, unknown>;
+        for (const setting of Object.keys(settings)) {
+            if (!NETWORK_KEYS.includes(setting)) fail(`${key}.${setting}`, "unknown setting");
+        }
+        for (const setting of ["rpcList", "chainId", "gateway"]) {
+            if (settings[setting] === undefined && !options.partial) fail(`${key}.${setting}`, "required");
+        }
+
+        if (settings.rpcList !== undefined) {
+            checkRpcList(settings.rpcList, `${key}.rpcList`, { source, network: name });
+        }
+        if (settings.chainId !== undefined) {
+            checkChainId(settings.chainId, `${key}.chainId`, { source, network: name });
+        }
+        if (settings.gateway !== undefined && !ethers.isAddressable(settings.gateway) && !ethers.isAddress(settings.gateway)) {
+            fail(`${key}.gateway`, `${settings.gateway} is not an Ethereum address`);
+        }
+        if (settings.aliases !== undefined) {
+            checkAliases(settings.aliases, `${key}.aliases`, { source, network: name });
+        }
+    }
+
+    if (!options.partial) {
+        // Reports networks sharing a name, chain ID or alias
+        const aliases = createNetworkAliases(config as WttpConfig);
+        const ens = (config as WttpConfig).ens;
+        if (ens?.network !== undefined && !aliases.has(ens.network.toLowerCase())) {
+            fail("ens.network", `${ens.network} is not a configured network`);
+        }
+        if (ens?.chainId !== undefined && !ens.rpcList) {
+            fail("ens.chainId", "only used with ens.rpcList, the chain ID of ens.network is used otherwise");
+        }
+    }
+}
+
+/**
+ * Checks the shape of the `ens` section
+ * Whether its network is configured is checked with the networks, once every layer is applied
+ *
+ * @param ens - The `ens` section
+ * @param options - The `source` named in errors
+ * @throws WttpConfigError pointing at the first offending key
+ */
+function validateEnsConfig(ens: unknown, options: { source?: string }): void {
+    const { source } = options;
+    if (!isObject(ens)) {
+        throw configError("ens", "expected an object", { source });
+    }
+    for (const setting of Object.keys(ens)) {
+        if (!ENS_KEYS.includes(setting)) throw configError(`ens.${setting}`, "unknown setting", { source });
+    }
+    if (ens.network !== undefined && (typeof ens.network !== "string" || !ens.network)) {
+        throw configError("ens.network", "expected a network name, chain ID or alias", { source });
+    }
+    if (ens.rpcList !== undefined) {
+        checkRpcList(ens.rpcList, "ens.rpcList", { source });
+    }
+    if (ens.chainId !== undefined) {
+        checkChainId(ens.chainId, "ens.chainId", { source });
+    }
+    if (ens.registry !== undefined && (typeof ens.registry !== "string" || !ethers.isAddress(ens.registry))) {
+        throw configError("ens.registry", `${ens.registry} is not an Ethereum address`, { source });
+    }
+}
+
+/**
+ * Builds the alias table of a configuration, mapping names, chain IDs and aliases to network names
+ *
+ * @param config - The WTTP configuration
+ * @returns The network name of every reference, keyed by the lower cased reference
+ * @throws WttpConfigError if there are no networks, a chain ID or alias is invalid, or a reference points at two networks
+ */
+export function createNetworkAliases(config: WttpConfig): Map<string, string> {
+    const networks = Object.entries(config?.networks ?? {});
+    if (!networks.length) {
+        throw configError("networks", "no networks configured");
+    }
+
+    const aliases = new Map<string, string>();
+    const add = (alias: string, network: string, key: string) => {
+        const existing = aliases.get(alias.toLowerCase());
+        if (existing !== undefined && existing !== network) {
+            throw configError(key, `${alias} already refers to network ${existing}`, { network });
+        }
+        aliases.set(alias.toLowerCase(), network);
+    };
+
+    for (const [network] of networks) {
+        add(network, network, `networks.${network}`);
+    }
+    for (const [network, networkConfig] of networks) {
+        const key = `networks.${network}.chainId`;
+        add(String(checkChainId(networkConfig?.chainId, key, { network })), network, key);
+    }
+    for (const [network, networkConfig] of networks) {
+        const key = `networks.${network}.aliases`;
+        checkAliases(networkConfig.aliases ?? [], key, { network }).forEach((alias, index) => add(alias, network, `${key}[${index}]`));
+    }
+    return aliases;
+}
+
+/**
+ * Checks that an RPC list holds at least one RPC URL
+ *
+ * @param rpcList - The configured RPC list
+ * @param key - The path of the setting, for the error
+ * @param context - The source and network named in the error
+ * @returns The RPC URLs
+ * @throws WttpConfigError if the list is empty or an entry is not an http(s) URL
+ */
+function checkRpcList(rpcList: unknown, key: string, context: WttpConfigErrorContext): string[] {
+    if (!Array.isArray(rpcList) || !rpcList.length) {
+        throw configError(key, "expected a non-empty array of RPC URLs", context);
+    }
+    rpcList.forEach((rpc, index) => {
+        if (!isRpcUrl(rpc)) throw configError(`${key}[${index}]`, `${rpc} is not an http(s) URL`, context);
+    });
+    return rpcList;
+}
+
+/**
+ * Checks that a chain ID is a positive integer
+ *
+ * @param chainId - The configured chain ID
+ * @param key - The path of the setting, for the error
+ * @param context - The source and network named in the error
+ * @returns The chain ID
+ * @throws WttpConfigError if the chain ID is invalid
+ */
+function checkChainId(chainId: unknown, key: string, context: WttpConfigErrorContext): number {
+    if (typeof chainId !== "number" || !Number.isSafeInteger(chainId) || chainId <= 0) {
+        throw configError(key, `expected a positive integer, got ${chainId}`, context);
+    }
+    return chainId;
+}
+
+/**
+ * Checks that aliases can be written as host labels
+ *
+ * @param aliases - The configured aliases
+ * @param key - The path of the setting, for the error
+ * @param context - The source and network named in the error
+ * @returns The aliases
+ * @throws WttpConfigError if the aliases are not an array, or an alias is invalid
+ */
+function checkAliases(aliases: unknown, key: string, context: WttpConfigErrorContext): string[] {
+    if (!Array.isArray(aliases)) {
+        throw configError(key, "expected an array of strings", context);
+    }
+    aliases.forEach((alias, index) => {
+        if (typeof alias !== "string" || !ALIAS_PATTERN.test(alias)) {
+            throw configError(`${key}[${index}]`, `${alias} is not a valid alias, use letters, digits, - and _`, context);
+        }
+    });
+    return aliases;
+}
+
+/**
+ * Finds the configuration file
+ * Without a path, the working directory and its parents up to the nearest package.json are searched,
+ * or only the working directory when it is outside a package
+ *
+ * @param file - The path given in the options, if any
+ * @param cwd - The directory to look from, the working directory by default
+ * @returns The absolute path of the file, or undefined if none is found
+ * @throws WttpConfigError if the file given in the options does not exist
+ */
+async function findConfigFile(file: string | undefined, cwd?: string): Promise<string | undefined> {
+    const fs = await import("fs/promises");
+    const path = await import("path");
+    const exists = (target: string) => fs.access(target).then(() => true, () => false);
+    cwd = path.resolve(cwd ?? process.cwd());
+
+    if (file !== undefined) {
+        const target = path.resolve(cwd, file);
+        if (!await exists(target)) {
+            throw new WttpConfigError(`WTTP config file not found: ${target}`);
+        }
+        return target;
+    }
+
+    let root = cwd;
+    for (let directory = cwd; ; directory = path.dirname(directory)) {
+        if (await exists(path.join(directory, "package.json"))) {
+            root = directory;
+            break;
+        }
+        if (path.dirname(directory) === directory) break;
+    }
+    for (let directory = cwd; ; directory = path.dirname(directory)) {
+        for (const name of WTTP_CONFIG_FILES) {
+            if (await exists(path.join(directory, name))) return path.join(directory, name);
+        }
+        if (directory === root) return undefined;
+    }
+}
+
+/**
+ * Reads a configuration file
+ * TypeScript files are imported, which requires a TypeScript loader such as ts-node or tsx
+ *
+ * @param file - The absolute path of a JSON or TypeScript file
+ * @param onWarning - Called when a TypeScript file is skipped for lack of a loader
+ * @returns The configuration, the `config` or default export of a TypeScript file, or undefined if the file is skipped
+ * @throws WttpConfigError if the file cannot be read or parsed
+ */
+async function readConfigFile(file: string, onWarning: (message: string) => void): Promise<unknown> {
+    try {
+        if (file.endsWith(".json")) {
+            const fs = await import("fs/promises");
+            return JSON.parse(await fs.readFile(file, "utf8"));
+        }
+        const { pathToFileURL } = await import("url");
+        const module = await import(pathToFileURL(file).href);
+        return module.config ?? module.default;
+    } catch (error) {
+        // Node.js cannot import TypeScript without a loader
+        if ((error as { code?: string })?.code === "ERR_UNKNOWN_FILE_EXTENSION") {
+            onWarning(`Skipping WTTP config file ${file}: TypeScript files need a loader such as tsx or ts-node, use ${WTTP_CONFIG_FILES[0]} instead`);
+            return undefined;
+        }
+        throw new WttpConfigError(`Could not load WTTP config file ${file}: ${error}`, { cause: error });
+    }
+}
+
+/**
+ * Reads the network and ENS settings of environment variables
+ * `WTTP_NETWORK_<NAME>_RPC` and `_ALIASES` take comma separated lists, `_GATEWAY` an address and `_CHAIN_ID` a number.
+ * `<NAME>` is the network name in upper case with `-` written as `_`, other names add a network.
+ * `WTTP_ENS_NETWORK`, `_RPC`, `_CHAIN_ID` and `_REGISTRY` set the matching settings of the `ens` section.
+ *
+ * @param env - The environment variables
+ * @param config - The configuration the settings apply to, to match the network names
+ * @returns The settings as overrides
+ * @throws WttpConfigError naming the variable if a chain ID is not a number
+ */
+function parseConfigEnv(env: Record<string, string | undefined>, config: WttpConfig): WttpConfigOverrides {
+    const networks: Record<string, Partial<WttpNetworkConfig>> = {};
+    const ens: WttpEnsConfig = {};
+    const list = (value: string) => value.split(",").map((item) => item.trim()).filter(Boolean);
+    const chainId = (variable: string, value: string, network?: string) => {
+        if (!/^\d+$/.test(value.trim())) {
+            throw configError(variable, `expected a chain ID, got ${value}`, { source: "environment variables", network });
+        }
+        return Number(value);
+    };
+
+    for (const [variable, value] of Object.entries(env)) {
+        if (value === undefined || value.trim() === "") continue;
+        const ensMatch = variable.match(ENS_ENV_PATTERN);
+        switch (ensMatch?.[1]) {
+            case "NETWORK":
+                ens.network = value.trim();
+                continue;
+            case "RPC":
+                ens.rpcList = list(value);
+                continue;
+            case "CHAIN_ID":
+                ens.chainId = chainId(variable, value);
+                continue;
+            case "REGISTRY":
+                ens.registry = value.trim();
+                continue;
+        }
+        const match = variable.match(ENV_PATTERN);
+        if (!match) continue;
+        const name = Object.keys(config.networks).find((network) => toEnvName(network) === match[1]) ?? match[1].toLowerCase();
+        const network = networks[name] = networks[name] ?? {};
+        switch (match[2]) {
+            case "RPC":
+                network.rpcList = list(value);
+                break;
+            case "GATEWAY":
+                network.gateway = value.trim();
+                break;
+            case "ALIASES":
+                network.aliases = list(value);
+                break;
+            case "CHAIN_ID":
+                network.chainId = chainId(variable, value, name);
+                break;
+        }
+    }
+    const overrides: WttpConfigOverrides = Object.keys(ens).length ? { networks, ens } : { networks };
+    validateWttpConfig(overrides, { partial: true, source: "environment variables" });
+    return overrides;
+}
+
+/**
+ * Gets the environment variable form of a network name
+ *
+ * @param network - The network name
+ * @returns The name in upper case, with characters other than letters and digits written as `_`
+ */
+function toEnvName(network: string): string {
+    return network.toUpperCase().replace(/[^A-Z0-9]/g, "_");
+}
+
+/**
+ * Creates the error reporting an invalid setting
+ *
+ * @param key - The path of the setting, e.g. `networks.sepolia.rpcList[0]`
+ * @param message - What is wrong with the setting
+ * @param context - The file or layer the setting comes from, and the network involved
+ * @returns The error
+ */
+function configError(key: string, message: string, context: WttpConfigErrorContext = {}): WttpConfigError {
+    const source = context.source ? ` in ${context.source}` : "";
+    return new WttpConfigError(`Invalid WTTP config${source} at ${key}: ${message}`, { key, network: context.network });
+}
+
+/**
+ * Checks if a value is a plain object
+ *
+ * @param value - The value
+ * @returns True for objects other than arrays and null
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks if a value is an RPC endpoint URL
+ *
+ * @param value - The value
+ * @returns True for http and https URLs, the only ones the JSON-RPC provider can send to
+ */
+function isRpcUrl(value: unknown): boolean {
+    if (typeof value !== "string") return false;
+    try {
+        return ["http:", "https:"].includes(new URL(value).protocol);
+    } catch {
+        return false;
+    }
+}
@@ -0,0 +1,285 @@
+/**
+ * WTTP Core Module
+ * 
+ * This module provides the configuration independent building blocks of the WTTP handler.
+ * It is shared by the WttpClient and the module level method wrappers.
+ * 
+ * The module includes functions for:
+ * - Validating Ethereum addresses
+ * - Encoding and decoding WTTP method bitmasks
+ * - Loading and checking WTTP Gateway and Web3Site contracts
+ * - Building WTTP error responses
+ */
+
+import { ethers } from "ethers";
+
+import { 
+    HEADRequestStruct, 
+    Web3Site 
+} from "../interfaces/contracts/Web3Site";
+import { 
+    GETResponseStruct, 
+    WTTPGatewayV3 
+} from "../interfaces/contracts/WTTPGatewayV3";
+import { WttpMethodName, WttpUrl } from "../interfaces/WTTPTypes";
+import { Web3Site__factory } from "../interfaces/contracts/Web3Site__factory";
+import { WTTPGatewayV3__factory } from "../interfaces/contracts/WTTPGatewayV3__factory";
+import { WttpRpcSession } from "./wttpRpc";
+import {
+    WttpBadGatewayError,
+    WttpError,
+    WttpHostNotImplementedError,
+    WttpUrlError
+} from "./wttpErrors";
+
+/**
+ * The current version of the WTTP protocol supported by this library
+ */
+export const WTTP_VERSION = "WTTP/3.0";
+
+/**
+ * The WTTP methods, indexed by method number
+ * A method is allowed when bit `1 << method` is set in a methods or allow bitmask
+ */
+export const WTTP_METHODS: readonly WttpMethodName[] = [
+    "HEAD",
+    "GET",
+    "POST",
+    "PUT",
+    "PATCH",
+    "DELETE",
+    "OPTIONS",
+    "LOCATE",
+    "DEFINE"
+];
+
+/**
+ * Decodes a methods bitmask into method names
+ *
+ * @param bitmask - The `allow` or `methods` bitmask returned by the gateway
+ * @returns The allowed method names, in method number order
+ */
+export function decodeWttpMethods(bitmask: ethers.BigNumberish): WttpMethodName[] {
+    const bits = BigInt(bitmask);
+    return WTTP_METHODS.filter((_, method) => (bits >> BigInt(method)) & 1n);
+}
+
+/**
+ * Encodes method names into a methods bitmask
+ *
+ * @param methods - The method names to allow
+ * @returns The methods bitmask
+ */
+export function encodeWttpMethods(methods: WttpMethodName[]): number {
+    return methods.reduce((bitmask, name) => bitmask | (1 << WTTP_METHODS.indexOf(name)), 0);
+}
+
+/**
+ * Formats and validates an Ethereum address
+ * 
+ * @param address - The Ethereum address to format and validate
+ * @returns The checksummed Ethereum address
+ * @throws WttpUrlError if the address is invalid
+ */
+export function formatEthereumAddress(address: string | ethers.Addressable): string {
+    try {
+        // Use ethers to validate the host is a valid address
+        const checksumAddress = ethers.getAddress(String(address));
+        // ethers.isAddress(checksumAddress); // try/catch implemented, so this is not needed
+        return checksumAddress;
+    } catch (error) {
+        throw new WttpUrlError(`Invalid Ethereum address: ${address} - ${error}`, { host: String(address), cause: error }, "INVALID_ADDRESS");
+    }
+}
+
+/**
+ * A HEAD request that will fail if sent to an invalid path
+ * Used for testing if a contract implements the WTTP protocol
+ */
+export const failHeadRequest: HEADRequestStruct = {
+    requestLine: {
+        protocol: WTTP_VERSION,
+        path: "404", // should return 404 since the path doesn't start with a /
+        method: 0
+    },
+    ifModifiedSince: 0n,
+    ifNoneMatch: ethers.ZeroHash,
+}
+
+/**
+ * Connects a Web3Site contract instance without verifying it
+ * Read-only requests run on the provider directly, so no wallet is created when no signer is provided
+ * 
+ * @param address - The Ethereum address of the Web3Site contract
+ * @param provider - The Ethereum JSON-RPC provider, or the session of a request, which carries its own signer
+ * @param signer - Optional Ethereum signer for authenticated requests
+ * @returns A Web3Site contract instance
+ */
+export function connectWttpHost(
+    address: string | ethers.Addressable, 
+    provider: ethers.JsonRpcProvider | WttpRpcSession, 
+    signer?: ethers.Signer
+): Web3Site {
+    return Web3Site__factory.connect(String(address), getContractRunner(provider, signer));
+}
+
+/**
+ * Connects a WTTP Gateway contract instance without verifying it
+ * 
+ * @param address - The Ethereum address of the WTTP Gateway contract
+ * @param provider - The Ethereum JSON-RPC provider, or the session of a request, which carries its own signer
+ * @param signer - Optional Ethereum signer for authenticated requests
+ * @returns A WTTPGatewayV3 contract instance
+ */
+export function connectWttpGateway(
+    address: string | ethers.Addressable, 
+    provider: ethers.JsonRpcProvider | WttpRpcSession, 
+    signer?: ethers.Signer
+): WTTPGatewayV3 {
+    return WTTPGatewayV3__factory.connect(String(address), getContractRunner(provider, signer));
+}
+
+/**
+ * Gets the runner WTTP contracts are connected to
+ *
+ * @param provider - The Ethereum JSON-RPC provider, or the session of a request
+ * @param signer - Optional Ethereum signer, connected to a provider
+ * @returns The signer connected to the provider, or the provider or session itself
+ */
+function getContractRunner(provider: ethers.JsonRpcProvider | WttpRpcSession, signer?: ethers.Signer): ethers.ContractRunner {
+    return signer && !(provider instanceof WttpRpcSession) ? signer.connect(provider) : provider;
+}
+
+/**
+ * Loads a Web3Site contract instance and verifies it implements the WTTP protocol
+ * 
+ * @param address - The Ethereum address of the Web3Site contract
+ * @param provider - The Ethereum JSON-RPC provider, or the session of a request, which carries its own signer
+ * @param signer - Optional Ethereum signer for authenticated requests
+ * @returns Promise resolving to a Web3Site contract instance
+ * @throws WttpHostNotImplementedError if the contract is invalid or doesn't implement the WTTP protocol
+ * @throws WttpRpcError if no RPC endpoint is reachable
+ */
+export async function loadWttpHost(
+    address: string | ethers.Addressable, 
+    provider: ethers.JsonRpcProvider | WttpRpcSession, 
+    signer?: ethers.Signer
+): Promise<Web3Site> {
+    try {
+        let site = connectWttpHost(address, provider, signer);
+        // Test if the contract implements the WTTP protocol
+        await site.HEAD(failHeadRequest);
+        return site;
+    } catch(error) {
+        if (error instanceof WttpError) throw error;
+        throw new WttpHostNotImplementedError(`Invalid WTTP Host: ${address} - invalid contract: ${error}`, { host: String(address), cause: error });
+    }
+}
+
+/**
+ * Checks if a Web3Site contract implements the WTTP protocol
+ * 
+ * @param host - The Web3Site contract instance to check
+ * @returns Promise resolving to true if the contract is valid, false otherwise
+ */
+export async function checkWttpHost(host: Web3Site): Promise<boolean> {
+    try {
+        // A successful call means the host is valid
+        await host.HEAD(failHeadRequest);
+        return true;
+    } catch(error) {
+        return false;
+        // should throw a 501 Not Implemented error upstream
+    }
+}
+
+/**
+ * Loads a WTTP Gateway contract instance and verifies it implements the WTTP protocol
+ * 
+ * @param wttpUrl - The parsed WTTP URL information
+ * @param provider - The Ethereum JSON-RPC provider, or the session of a request, which carries its own signer
+ * @param signer - Optional Ethereum signer for authenticated requests
+ * @returns Promise resolving to a WTTPGatewayV3 contract instance
+ * @throws WttpBadGatewayError if the contract is invalid or doesn't implement the WTTP protocol
+ * @throws WttpRpcError if no RPC endpoint is reachable
+ */
+export async function loadWttpGateway(wttpUrl: WttpUrl, provider: ethers.JsonRpcProvider | WttpRpcSession, signer?: ethers.Signer): Promise<WTTPGatewayV3> {
+    try {
+        let gateway = connectWttpGateway(wttpUrl.gateway, provider, signer);
+        // Test if the contract implements the WTTP protocol
+        await gateway.HEAD(wttpUrl.host, failHeadRequest);
+        return gateway;
+    } catch(error) {
+        if (error instanceof WttpError) throw error;
+        throw new WttpBadGatewayError(`Invalid WTTP Gateway: ${wttpUrl.gateway} - invalid contract: ${error}`, {
+            url: wttpUrl.url,
+            host: wttpUrl.host,
+            gateway: wttpUrl.gateway,
+            network: wttpUrl.network,
+            cause: error
+        });
+    }
+}
+
+/**
+ * Checks if a WTTP Gateway contract implements the WTTP protocol
+ * 
+ * @param gateway - The WTTPGatewayV3 contract instance to check
+ * @param host - The Ethereum address of the Web3Site contract
+ * @returns Promise resolving to true if the contract is valid, false otherwise
+ */
+export async function checkWttpGateway(gateway: WTTPGatewayV3, host: string | ethers.Addressable): Promise<boolean> {
+    try {
+        // A successful call means the gateway is valid
+        await gateway.HEAD(host, failHeadRequest);
+        return true;
+    } catch(error) {
+        return false;
+        // should throw a 502 Bad Gateway error upstream
+    }
+}
+
+/**
+ * Creates an error response for WTTP requests
+ * 
+ * @param statusCode - The HTTP status code for the error
+ * @param wttpUrl - Optional WTTP URL information to include in the error message
+ * @param message - Optional error message, used as the response data instead of the URL information
+ * @returns A GETResponseStruct with the error information
+ */
+export function wttpErrorResponse(statusCode: bigint, wttpUrl?: WttpUrl, message?: string): GETResponseStruct {
+    const text = message ?? (wttpUrl ? `Gateway: ${wttpUrl.gateway} - Host: ${wttpUrl.host}` : '');
+    return {
+        head: {
+            responseLine: {
+                protocol: WTTP_VERSION,
+                code: statusCode
+            },
+            headerInfo: {
+                methods: 0n,
+                cache: { 
+                    maxAge: 0n, 
+                    noStore: false, 
+                    noCache: false, 
+                    immutableFlag: false, 
+                    publicFlag: false 
+                },
+                redirect: { code: 0n, location: '' },
+                resourceAdmin: ethers.ZeroAddress
+            },
+            metadata: {
+                mimeType: '',
+                charset: '',
+                encoding: '',
+                language: '',
+                size: 0n,
+                version: 0n,
+                lastModified: 0n,
+                header: ethers.ZeroHash
+            },
+            etag: ethers.ZeroHash
+        },
+        bytesRange: { start:0, end:0 },
+        data: ethers.hexlify(ethers.toUtf8Bytes(text))
+    }
+}
@@ -0,0 +1,166 @@
+/**
+ * WTTP Diagnostics Module
+ *
+ * This module works out why a WTTP request failed once the gateway call has thrown.
+ * The gateway and host are probed again to tell apart unreachable RPCs, timeouts,
+ * contracts that do not implement WTTP and genuine contract reverts, and the
+ * result is reported as a structured diagnosis with an HTTP-like status.
+ */
+
+import { ethers } from "ethers";
+
+import { Web3Site__factory } from "../interfaces/contracts/Web3Site__factory";
+import {
+    WttpDiagnostics,
+    WttpProvider,
+    WttpRevertReason,
+    WttpUrl
+} from "../interfaces/WTTPTypes";
+import { failHeadRequest } from "./wttpCore";
+import { WttpRpcError, WttpTimeoutError } from "./wttpErrors";
+
+/**
+ * Result of probing a contract for the WTTP protocol
+ */
+type ProbeResult = "ok" | "not-implemented" | "unreachable" | "timeout";
+
+/**
+ * Custom errors that mean the caller is not allowed to access the resource
+ */
+const FORBIDDEN_ERRORS = ["Forbidden", "AccessControlUnauthorizedAccount"];
+
+/**
+ * Diagnoses a failed gateway call
+ *
+ * @param error - The error thrown by the gateway call
+ * @param wttpUrl - The parsed WTTP URL information
+ * @param wttpProvider - The provider used for the request
+ * @returns Promise resolving to the diagnosis of the failure
+ */
+export async function diagnoseWttpError(
+    error: unknown,
+    wttpUrl: WttpUrl,
+    wttpProvider: WttpProvider
+): Promise<WttpDiagnostics> {
+    const diagnose = (status: number, cause: WttpDiagnostics["cause"], message: string, revert?: WttpRevertReason): WttpDiagnostics => ({
+        status,
+        cause,
+        message,
+        revert,
+        network: wttpUrl.network,
+        gateway: wttpUrl.gateway,
+        host: wttpUrl.host,
+        rpc: wttpProvider.rpc?.lastEndpoint
+    });
+
+    const failure = classifyError(error);
+    if (failure === "unreachable") {
+        return diagnose(503, "RPC_UNAVAILABLE", `No RPC endpoint for ${wttpUrl.network} could be reached - ${error}`);
+    }
+    if (failure === "timeout") {
+        return diagnose(504, "TIMEOUT", `The request to ${wttpUrl.network} timed out - ${error}`);
+    }
+
+    // Probe the gateway first, then the host behind it
+    const gatewayProbe = await probe(() => wttpProvider.gateway.HEAD(wttpUrl.host, failHeadRequest));
+    const hostProbe = wttpProvider.host ? await probe(() => wttpProvider.host!.HEAD(failHeadRequest)) : "ok";
+    for (const result of [gatewayProbe, hostProbe]) {
+        if (result === "unreachable") {
+            return diagnose(503, "RPC_UNAVAILABLE", `No RPC endpoint for ${wttpUrl.network} could be reached while diagnosing - ${error}`);
+        }
+        if (result === "timeout") {
+            return diagnose(504, "TIMEOUT", `The request to ${wttpUrl.network} timed out while diagnosing - ${error}`);
+        }
+    }
+    if (hostProbe === "not-implemented") {
+        return diagnose(501, "HOST_NOT_IMPLEMENTED", `Web3Site ${wttpUrl.host} does not implement the WTTP protocol`);
+    }
+    if (gatewayProbe === "not-implemented") {
+        return diagnose(502, "BAD_GATEWAY", `WTTP Gateway ${wttpUrl.gateway} does not implement the WTTP protocol`);
+    }
+
+    const revert = decodeRevert(error);
+    if (revert) {
+        const status = revert.name && FORBIDDEN_ERRORS.includes(revert.name) ? 403 : 500;
+        return diagnose(status, "CONTRACT_REVERT", `Request reverted: ${revert.name || revert.reason || revert.data}`, revert);
+    }
+    return diagnose(500, "UNKNOWN", `Request failed: ${error}`);
+}
+
+/**
+ * Decodes the revert reason of a failed contract call
+ *
+ * @param error - The error thrown by the contract call
+ * @returns The decoded revert reason, or undefined if the error is not a revert
+ */
+export function decodeRevert(error: unknown): WttpRevertReason | undefined {
+    if (!ethers.isError(error, "CALL_EXCEPTION")) {
+        return undefined;
+    }
+    const data = error.data || undefined;
+    if (error.revert) {
+        return {
+            name: error.revert.name,
+            reason: error.reason || undefined,
+            args: error.revert.args.map(String),
+            data
+        };
+    }
+    if (data) {
+        try {
+            const parsed = Web3Site__factory.createInterface().parseError(data);
+            if (parsed) {
+                return { name: parsed.name, args: parsed.args.map(String), data };
+            }
+        } catch {
+            // Unknown custom error, report the raw data
+        }
+    }
+    return { reason: error.reason || undefined, data };
+}
+
+/**
+ * Classifies an error as a transport failure, if it is one
+ *
+ * @param error - The error to classify
+ * @returns "unreachable" or "timeout" for transport failures, undefined otherwise
+ */
+function classifyError(error: unknown): "unreachable" | "timeout" | undefined {
+    // Check for timeouts first, the RPC error of failed endpoints carries the timeout of the last one as its cause
+    if (isTimeoutError(error)) {
+        return "timeout";
+    }
+    if (error instanceof WttpRpcError || ethers.isError(error, "NETWORK_ERROR") || ethers.isError(error, "SERVER_ERROR")) {
+        return "unreachable";
+    }
+    return undefined;
+}
+
+/**
+ * Checks if an error, or one of its causes, is a timeout
+ *
+ * @param error - The error to check
+ * @returns True if the request timed out
+ */
+function isTimeoutError(error: unknown): boolean {
+    if (error instanceof WttpTimeoutError || ethers.isError(error, "TIMEOUT")) {
+        return true;
+    }
+    const cause = (error as { cause?: unknown })?.cause;
+    return cause !== undefined && cause !== error && isTimeoutError(cause);
+}
+
+/**
+ * Calls a contract probe and classifies the outcome
+ *
+ * @param call - The probe call
+ * @returns Promise resolving to the probe result
+ */
+async function probe(call: () => Promise<unknown>): Promise<ProbeResult> {
+    try {
+        await call();
+        return "ok";
+    } catch (error) {
+        return classifyError(error) || "not-implemented";
+    }
+}
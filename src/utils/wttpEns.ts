@@ -0,0 +1,220 @@
+/**
+ * WTTP ENS Module
+ *
+ * This module provides the name cache used when resolving ENS host names. Without
+ * it every request for `site.eth` costs a registry and a resolver call before the
+ * gateway is even reached.
+ *
+ * The module includes:
+ * - Cache keys that tell apart the same name on different chains and registries
+ * - Positive entries kept for `ttlMs`, and names without an address kept for the shorter `negativeTtlMs`
+ * - An in-memory store and a file store that survives restarts
+ *
+ * Concurrent lookups of the same name are coalesced by the client, so a burst of
+ * requests costs a single resolution.
+ */
+
+import { ethers } from "ethers";
+
+import { WttpEnsEntry, WttpEnsStore } from "../interfaces/WTTPTypes";
+
+/**
+ * Network used to resolve ENS names when the configuration has no `ens` section
+ */
+export const DEFAULT_ENS_NETWORK = "mainnet";
+
+/**
+ * Default time a resolved name is trusted before it is resolved again
+ */
+export const DEFAULT_ENS_TTL_MS = 15 * 60 * 1000;
+
+/**
+ * Default time a name without an address is remembered before it is resolved again
+ */
+export const DEFAULT_ENS_NEGATIVE_TTL_MS = 60 * 1000;
+
+/**
+ * Default maximum number of names kept by a WttpMemoryEnsStore
+ */
+export const DEFAULT_ENS_MAX_ENTRIES = 1000;
+
+/**
+ * The name of the ethers network plugin holding the ENS registry address
+ */
+const ENS_PLUGIN = "org.ethers.plugins.network.Ens";
+
+/**
+ * Gets the key of a name in the ENS cache
+ *
+ * @param name - The ENS name, in any case
+ * @param chainId - The chain ID the name is resolved on
+ * @param registry - Optional address of the ENS registry, the one ethers knows for the chain by default
+ * @returns The chain ID, registry address and normalized name
+ * @throws Error if the name cannot be normalized
+ */
+export function getEnsKey(name: string, chainId: number, registry?: string): string {
+    registry = registry ?? ethers.Network.from(chainId).getPlugin<ethers.EnsPlugin>(ENS_PLUGIN)?.address ?? ethers.ZeroAddress;
+    return `${chainId}:${registry.toLowerCase()}:${ethers.ensNormalize(name)}`;
+}
+
+/**
+ * Checks if a cached name can be used without resolving it again
+ *
+ * @param entry - The cache entry
+ * @param now - The current time in milliseconds
+ * @returns True if the entry has not expired
+ */
+export function isEnsEntryFresh(entry: WttpEnsEntry, now: number = Date.now()): boolean {
+    return entry.expiresAt > now;
+}
+
+/**
+ * A name cache kept in memory, evicting the least recently used names
+ */
+export class WttpMemoryEnsStore implements WttpEnsStore {
+    /**
+     * Maximum number of names kept
+     */
+    readonly maxEntries: number;
+
+    /**
+     * The entries, from least to most recently used
+     */
+    private entries: Map<string, WttpEnsEntry> = new Map();
+
+    /**
+     * Creates an in-memory name cache
+     *
+     * @param maxEntries - Optional maximum number of names kept
+     */
+    constructor(maxEntries: number = DEFAULT_ENS_MAX_ENTRIES) {
+        this.maxEntries = Math.max(maxEntries, 1);
+    }
+
+    /**
+     * The number of names kept
+     */
+    get size(): number {
+        return this.entries.size;
+    }
+
+    async get(key: string): Promise<WttpEnsEntry | undefined> {
+        const entry = this.entries.get(key);
+        if (entry) {
+            // Move the entry to the most recently used end
+            this.entries.delete(key);
+            this.entries.set(key, entry);
+        }
+        return entry;
+    }
+
+    async set(key: string, entry: WttpEnsEntry): Promise<void> {
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        for (const oldest of this.entries.keys()) {
+            if (this.entries.size <= this.maxEntries) break;
+            this.entries.delete(oldest);
+        }
+    }
+
+    async delete(key: string): Promise<void> {
+        this.entries.delete(key);
+    }
+
+    async clear(): Promise<void> {
+        this.entries.clear();
+    }
+}
+
+/**
+ * A name cache kept in a single JSON file, so resolved names survive restarts
+ * Requires Node.js, expired entries are dropped whenever the file is written
+ */
+export class WttpFileEnsStore implements WttpEnsStore {
+    /**
+     * The path of the file holding the entries
+     */
+    readonly file: string;
+
+    /**
+     * The last write, so concurrent updates do not overwrite each other
+     */
+    private writing: Promise<void> = Promise.resolve();
+
+    /**
+     * Creates a file name cache
+     *
+     * @param file - The path of the file, created with its directory on first write
+     */
+    constructor(file: string) {
+        this.file = file;
+    }
+
+    async get(key: string): Promise<WttpEnsEntry | undefined> {
+        const entries = await this.read();
+        return entries[key];
+    }
+
+    async set(key: string, entry: WttpEnsEntry): Promise<void> {
+        await this.update((entries) => {
+            entries[key] = entry;
+        });
+    }
+
+    async delete(key: string): Promise<void> {
+        await this.update((entries) => {
+            delete entries[key];
+        });
+    }
+
+    async clear(): Promise<void> {
+        await this.update((entries) => {
+            for (const key of Object.keys(entries)) delete entries[key];
+        });
+    }
+
+    /**
+     * Reads the entries from the file
+     *
+     * @returns The entries, empty if the file is missing or unreadable
+     */
+    private async read(): Promise<Record<string, WttpEnsEntry>> {
+        const fs = await import("fs/promises");
+        try {
+            const entries = JSON.parse(await fs.readFile(this.file, "utf8"));
+            return typeof entries === "object" && entries !== null && !Array.isArray(entries) ? entries : {};
+        } catch (error) {
+            // Missing and unreadable files are empty caches
+            if ((error as { code?: string })?.code === "ENOENT" || error instanceof SyntaxError) {
+                return {};
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Changes the entries and writes them back, one update at a time
+     *
+     * @param change - Changes the entries in place
+     */
+    private update(change: (entries: Record<string, WttpEnsEntry>) => void): Promise<void> {
+        const write = async () => {
+            const fs = await import("fs/promises");
+            const path = await import("path");
+            const entries = await this.read();
+            change(entries);
+            const now = Date.now();
+            for (const [key, entry] of Object.entries(entries)) {
+                if (!isEnsEntryFresh(entry, now)) delete entries[key];
+            }
+            // Write to a temporary file first, so readers never see a partial file
+            const temporary = `${this.file}.${ethers.hexlify(ethers.randomBytes(4)).slice(2)}.tmp`;
+            await fs.mkdir(path.dirname(this.file), { recursive: true });
+            await fs.writeFile(temporary, JSON.stringify(entries));
+            await fs.rename(temporary, this.file);
+        };
+        // Run after the previous update, whether or not it succeeded
+        this.writing = this.writing.then(write, write);
+        return this.writing;
+    }
+}
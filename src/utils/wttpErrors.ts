@@ -0,0 +1,222 @@
+/**
+ * WTTP Errors Module
+ *
+ * This module provides the error classes thrown by the WTTP handler.
+ * Every error carries a machine readable `code`, an HTTP-like `status` and the
+ * URL, host or gateway involved, so callers can handle failures without
+ * parsing error messages.
+ */
+
+/**
+ * Machine readable WTTP error codes
+ */
+export type WttpErrorCode =
+    | "INVALID_URL"
+    | "INVALID_ADDRESS"
+    | "UNKNOWN_NETWORK"
+    | "ENS_NOT_RESOLVED"
+    | "HOST_NOT_IMPLEMENTED"
+    | "BAD_GATEWAY"
+    | "RPC_UNAVAILABLE"
+    | "TIMEOUT"
+    | "ABORTED"
+    | "UNEXPECTED_STATUS"
+    | "REDIRECT"
+    | "REDIRECT_LOOP"
+    | "TOO_MANY_REDIRECTS"
+    | "INVALID_RANGE"
+    | "RANGE_NOT_SATISFIABLE"
+    | "NOT_CACHED"
+    | "INVALID_CONFIG";
+
+/**
+ * Details attached to a WTTP error
+ */
+export type WttpErrorOptions = {
+    url?: string | URL;
+    host?: string;
+    gateway?: string;
+    network?: string;
+    cause?: unknown;
+};
+
+/**
+ * Base class of all errors thrown by the WTTP handler
+ */
+export class WttpError extends Error {
+    /**
+     * Machine readable error code
+     */
+    readonly code: WttpErrorCode;
+
+    /**
+     * HTTP-like status code describing the failure
+     */
+    readonly status: number;
+
+    /**
+     * The WTTP URL being requested
+     */
+    readonly url?: string;
+
+    /**
+     * The Web3Site host address or name involved
+     */
+    readonly host?: string;
+
+    /**
+     * The WTTP gateway address involved
+     */
+    readonly gateway?: string;
+
+    /**
+     * The network name involved
+     */
+    readonly network?: string;
+
+    /**
+     * The original error
+     */
+    readonly cause?: unknown;
+
+    constructor(message: string, code: WttpErrorCode, status: number, options: WttpErrorOptions = {}) {
+        super(message);
+        this.name = new.target.name;
+        this.code = code;
+        this.status = status;
+        this.url = options.url === undefined ? undefined : String(options.url);
+        this.host = options.host;
+        this.gateway = options.gateway;
+        this.network = options.network;
+        this.cause = options.cause;
+    }
+}
+
+/**
+ * The URL or Ethereum address is not valid (400 Bad Request)
+ */
+export class WttpUrlError extends WttpError {
+    constructor(message: string, options?: WttpErrorOptions, code: WttpErrorCode = "INVALID_URL") {
+        super(message, code, 400, options);
+    }
+}
+
+/**
+ * The requested network is not configured (400 Bad Request)
+ */
+export class WttpNetworkError extends WttpError {
+    constructor(message: string, options?: WttpErrorOptions) {
+        super(message, "UNKNOWN_NETWORK", 400, options);
+    }
+}
+
+/**
+ * The ENS name could not be resolved (404 Not Found)
+ */
+export class WttpEnsError extends WttpError {
+    constructor(message: string, options?: WttpErrorOptions) {
+        super(message, "ENS_NOT_RESOLVED", 404, options);
+    }
+}
+
+/**
+ * The host contract does not implement the WTTP protocol (501 Not Implemented)
+ */
+export class WttpHostNotImplementedError extends WttpError {
+    constructor(message: string, options?: WttpErrorOptions) {
+        super(message, "HOST_NOT_IMPLEMENTED", 501, options);
+    }
+}
+
+/**
+ * The gateway contract does not implement the WTTP protocol (502 Bad Gateway)
+ */
+export class WttpBadGatewayError extends WttpError {
+    constructor(message: string, options?: WttpErrorOptions) {
+        super(message, "BAD_GATEWAY", 502, options);
+    }
+}
+
+/**
+ * No RPC endpoint could serve the request (503 Service Unavailable)
+ */
+export class WttpRpcError extends WttpError {
+    constructor(message: string, options?: WttpErrorOptions) {
+        super(message, "RPC_UNAVAILABLE", 503, options);
+    }
+}
+
+/**
+ * The request did not complete in time (504 Gateway Timeout)
+ */
+export class WttpTimeoutError extends WttpError {
+    constructor(message: string, options?: WttpErrorOptions) {
+        super(message, "TIMEOUT", 504, options);
+    }
+}
+
+/**
+ * The request was cancelled through its AbortSignal (499 Client Closed Request)
+ */
+export class WttpAbortError extends WttpError {
+    constructor(message: string, options?: WttpErrorOptions) {
+        super(message, "ABORTED", 499, options);
+    }
+}
+
+/**
+ * The resource answered with a status that does not carry its content (the status of the response)
+ */
+export class WttpStatusError extends WttpError {
+    constructor(message: string, status: number, options?: WttpErrorOptions) {
+        super(message, "UNEXPECTED_STATUS", status, options);
+    }
+}
+
+/**
+ * A redirect could not be followed (the redirect status, or 508 Loop Detected for loops and long chains)
+ */
+export class WttpRedirectError extends WttpError {
+    constructor(message: string, code: "REDIRECT" | "REDIRECT_LOOP" | "TOO_MANY_REDIRECTS", status: number, options?: WttpErrorOptions) {
+        super(message, code, status, options);
+    }
+}
+
+/**
+ * A byte range is malformed (400 Bad Request) or lies outside the resource (416 Range Not Satisfiable)
+ */
+export class WttpRangeError extends WttpError {
+    /**
+     * The size of the resource, for the `Content-Range: bytes *\/size` header of a 416 response
+     */
+    readonly size?: number;
+
+    constructor(message: string, code: "INVALID_RANGE" | "RANGE_NOT_SATISFIABLE", options: WttpErrorOptions & { size?: number } = {}) {
+        super(message, code, code === "INVALID_RANGE" ? 400 : 416, options);
+        this.size = options.size;
+    }
+}
+
+/**
+ * An offline request found no cached response (504 Gateway Timeout)
+ */
+export class WttpNotCachedError extends WttpError {
+    constructor(message: string, options?: WttpErrorOptions) {
+        super(message, "NOT_CACHED", 504, options);
+    }
+}
+
+/**
+ * The WTTP configuration is malformed or inconsistent (500 Internal Server Error)
+ */
+export class WttpConfigError extends WttpError {
+    /**
+     * The path of the offending configuration key, e.g. `networks.sepolia.aliases[0]`
+     */
+    readonly key?: string;
+
+    constructor(message: string, options: WttpErrorOptions & { key?: string } = {}) {
+        super(message, "INVALID_CONFIG", 500, options);
+        this.key = options.key;
+    }
+}
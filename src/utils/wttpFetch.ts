@@ -0,0 +1,122 @@
+/**
+ * WTTP Fetch Module
+ *
+ * This module provides a WHATWG fetch-compatible entry point for WTTP resources.
+ * Requests are translated into WTTP HEAD/GET calls and the results are returned
+ * as standard `Response` objects, so code written against `fetch()` can read
+ * WTTP content with `.text()`, `.json()`, `.arrayBuffer()` and `.blob()`.
+ *
+ * The requests are sent through a WttpClient, so `WttpClient#fetch` uses the client
+ * configuration and the module level `wttpFetch` the default client.
+ */
+
+import { GETOptions, WttpRequestInit } from "../interfaces/WTTPTypes";
+import { WttpAbortError, WttpRangeError } from "./wttpErrors";
+import { parseETag, parseHttpDate, toHttpHeaders } from "./wttpHeaders";
+import type { WttpClient } from "./wttpClient";
+import { parseByteRanges, toMultipartByteRanges } from "./wttpRange";
+import { toWttpUrl } from "./wttpUrl";
+
+/**
+ * Status codes that must not carry a body in a `Response`
+ */
+const NULL_BODY_STATUS = [101, 103, 204, 205, 304];
+
+/**
+ * Performs a fetch-style request to a WTTP resource through a client
+ *
+ * @param client - The client sending the HEAD and GET requests
+ * @param input - The WTTP URL to request, or a `Request` object targeting a WTTP URL
+ * @param init - Optional request settings; `method` selects HEAD or GET (defaults to GET)
+ * @returns Promise resolving to a standard `Response` with the mapped status, headers and body.
+ *          A `Range` header returns 206 Partial Content, as `multipart/byteranges` for several ranges,
+ *          or 416 Range Not Satisfiable
+ * @throws TypeError if the URL is invalid or the provider cannot be created
+ * @throws The abort reason of `init.signal` if the request is aborted, like `fetch()`
+ */
+export async function fetchWithClient(client: Pick<WttpClient, "get" | "head">, input: string | URL | Request, init?: WttpRequestInit): Promise<Response> {
+    const request = input instanceof Request ? input : undefined;
+    const url = toWttpUrl(request ? request.url : input as string | URL);
+    const method = (init?.method || request?.method || "GET").toUpperCase();
+    const headers = new Headers(init?.headers || request?.headers);
+
+    if (method !== "GET" && method !== "HEAD") {
+        return new Response(null, {
+            status: 405,
+            statusText: "Method Not Allowed",
+            headers: { "Allow": "GET, HEAD" }
+        });
+    }
+
+    const options: GETOptions = {
+        ifModifiedSince: parseHttpDate(headers.get("If-Modified-Since")),
+        ifNoneMatch: parseETag(headers.get("If-None-Match")),
+        signer: init?.signer,
+        signal: init?.signal || request?.signal || undefined,
+        redirect: init?.redirect || request?.redirect || "follow",
+        range: getRange(headers.get("Range"))
+    };
+
+    try {
+        if (method === "HEAD") {
+            const head = await client.head(url, options);
+            return new Response(null, {
+                status: Number(head.responseLine.code),
+                headers: toHttpHeaders(head)
+            });
+        }
+
+        const response = await client.get(url, options);
+        if (response.parts) {
+            const multipart = toMultipartByteRanges(response);
+            const headers = toHttpHeaders(response.head);
+            headers.set("Content-Type", multipart.contentType);
+            headers.set("Content-Length", String(multipart.body.length));
+            return new Response(multipart.body, { status: 206, headers });
+        }
+        let status = Number(response.head.responseLine.code);
+        const headers = toHttpHeaders(response.head, response.bytesRange);
+        if (status === 200 && options.range && headers.has("Content-Range")) {
+            status = 206;
+        }
+        const body = NULL_BODY_STATUS.includes(status) ? null : response.body;
+        // The metadata size is the size of the stored resource, not of a diagnosed error body
+        if (body) {
+            headers.set("Content-Length", String(body.length));
+        } else {
+            headers.delete("Content-Length");
+        }
+        return new Response(body, { status, headers });
+    } catch (error) {
+        if (error instanceof WttpRangeError && error.code === "RANGE_NOT_SATISFIABLE") {
+            return new Response(null, {
+                status: 416,
+                statusText: "Range Not Satisfiable",
+                headers: { "Content-Range": `bytes */${error.size ?? "*"}` }
+            });
+        }
+        // fetch() rejects with the abort reason when the request is aborted
+        if (error instanceof WttpAbortError) {
+            throw error.cause ?? error;
+        }
+        // fetch() rejects with a TypeError on network failures
+        throw new TypeError(`wttpFetch failed: ${url} - ${error}`);
+    }
+}
+
+/**
+ * Reads the `Range` header of a request
+ * Like HTTP servers, a malformed header is ignored and the whole resource is returned
+ *
+ * @param value - The header value
+ * @returns The header value, or undefined if it is missing or malformed
+ */
+function getRange(value: string | null): string | undefined {
+    if (!value) return undefined;
+    try {
+        parseByteRanges(value);
+        return value;
+    } catch {
+        return undefined;
+    }
+}
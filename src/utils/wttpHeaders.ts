@@ -0,0 +1,158 @@
+/**
+ * WTTP Headers Module
+ *
+ * This module maps WTTP response heads to standard HTTP headers and back.
+ * The cache control, ETag, modification time, size, range, redirect, allowed
+ * methods and content metadata of a resource each have an HTTP counterpart,
+ * so gateways and proxies can serve WTTP resources with the headers browsers expect.
+ */
+
+import { ethers } from "ethers";
+
+import { HEADResponseStruct, RangeStruct } from "../interfaces/contracts/WTTPGatewayV3";
+import { WttpMethodName } from "../interfaces/WTTPTypes";
+import { decodeWttpMetadata, encodeWttpMetadata } from "./wttpCodec";
+import { WTTP_METHODS, WTTP_VERSION, decodeWttpMethods, encodeWttpMethods } from "./wttpCore";
+
+/**
+ * Maps a WTTP response head to HTTP headers
+ *
+ * @param head - The HEAD response, or the head of a GET response
+ * @param bytesRange - The byte range of a GET response, mapped to `Content-Range` when it is partial
+ * @returns The HTTP headers
+ */
+export function toHttpHeaders(head: HEADResponseStruct, bytesRange?: RangeStruct): Headers {
+    const headers = new Headers();
+    const { cache, redirect, methods } = head.headerInfo;
+
+    const cacheControl = [
+        cache.publicFlag ? "public" : undefined,
+        cache.noStore ? "no-store" : undefined,
+        cache.noCache ? "no-cache" : undefined,
+        Number(cache.maxAge) > 0 ? `max-age=${cache.maxAge}` : undefined,
+        cache.immutableFlag ? "immutable" : undefined
+    ].filter(Boolean);
+    if (cacheControl.length) {
+        headers.set("Cache-Control", cacheControl.join(", "));
+    }
+
+    const etag = head.etag ? ethers.hexlify(head.etag) : ethers.ZeroHash;
+    if (etag !== ethers.ZeroHash) {
+        headers.set("ETag", `"${etag}"`);
+    }
+
+    const lastModified = Number(head.metadata.lastModified);
+    if (lastModified > 0) {
+        headers.set("Last-Modified", new Date(lastModified * 1000).toUTCString());
+    }
+
+    const size = Number(head.metadata.size);
+    const start = Number(bytesRange?.start ?? 0);
+    const end = Number(bytesRange?.end ?? 0);
+    if (bytesRange && end > start && (start > 0 || end < size)) {
+        headers.set("Content-Length", String(end - start));
+        headers.set("Content-Range", `bytes ${start}-${end - 1}/${size}`);
+    } else {
+        headers.set("Content-Length", String(size));
+    }
+
+    if (redirect.location) {
+        headers.set("Location", redirect.location);
+    }
+
+    const allow = decodeWttpMethods(methods);
+    if (allow.length) {
+        headers.set("Allow", allow.join(", "));
+    }
+
+    const content = decodeWttpMetadata(head.metadata);
+    if (content.contentType) {
+        headers.set("Content-Type", content.contentType);
+    }
+    if (content.encoding) {
+        headers.set("Content-Encoding", content.encoding);
+    }
+    if (content.language) {
+        headers.set("Content-Language", content.language);
+    }
+    return headers;
+}
+
+/**
+ * Maps HTTP headers back to a WTTP response head, as far as the headers carry the information
+ * Fields without an HTTP counterpart (version, resourceAdmin and header) are left empty
+ *
+ * @param init - The HTTP headers
+ * @param status - The HTTP status, used as the response code and as the redirect code of 3xx responses
+ * @returns The response head, and the byte range if the headers carry a `Content-Range`
+ */
+export function fromHttpHeaders(init: HeadersInit, status: number = 200): { head: HEADResponseStruct; bytesRange?: RangeStruct } {
+    const headers = new Headers(init);
+
+    const directives = (headers.get("Cache-Control") || "").toLowerCase().split(",").map((directive) => directive.trim());
+    const maxAge = directives.find((directive) => directive.startsWith("max-age="));
+
+    const contentRange = headers.get("Content-Range")?.match(/^bytes\s+(\d+)-(\d+)\/(\d+|\*)$/i);
+    const bytesRange = contentRange ? { start: BigInt(contentRange[1]), end: BigInt(contentRange[2]) + 1n } : undefined;
+    const size = contentRange && contentRange[3] !== "*" ? contentRange[3] : headers.get("Content-Length");
+
+    const location = headers.get("Location") || "";
+    const allow = (headers.get("Allow") || "").split(",").map((method) => method.trim().toUpperCase())
+        .filter((method): method is WttpMethodName => WTTP_METHODS.includes(method as WttpMethodName));
+
+    const codes = encodeWttpMetadata({
+        contentType: headers.get("Content-Type") || undefined,
+        encoding: headers.get("Content-Encoding") || undefined,
+        language: headers.get("Content-Language") || undefined
+    });
+
+    const head: HEADResponseStruct = {
+        responseLine: { protocol: WTTP_VERSION, code: BigInt(status) },
+        headerInfo: {
+            methods: BigInt(encodeWttpMethods(allow)),
+            cache: {
+                maxAge: BigInt(parseInt(maxAge?.slice("max-age=".length) || "0") || 0),
+                noStore: directives.includes("no-store"),
+                noCache: directives.includes("no-cache"),
+                immutableFlag: directives.includes("immutable"),
+                publicFlag: directives.includes("public")
+            },
+            redirect: { code: location && status >= 300 && status < 400 ? BigInt(status) : 0n, location },
+            resourceAdmin: ethers.ZeroHash
+        },
+        metadata: {
+            ...codes,
+            size: BigInt(size && /^\d+$/.test(size) ? size : 0),
+            version: 0n,
+            lastModified: parseHttpDate(headers.get("Last-Modified")) ?? 0n,
+            header: ethers.ZeroHash
+        },
+        etag: parseETag(headers.get("ETag")) ?? ethers.ZeroHash
+    };
+    return bytesRange ? { head, bytesRange } : { head };
+}
+
+/**
+ * Converts an `ETag` or `If-None-Match` header to the bytes32 etag used by WTTP
+ * Only the first tag of a list is used
+ *
+ * @param value - The header value, e.g. `"0x1234..."` or `W/"0x1234..."`
+ * @returns The etag, or undefined if the header is missing or not a bytes32 value
+ */
+export function parseETag(value: string | null): string | undefined {
+    if (!value) return undefined;
+    const etag = value.split(",")[0].trim().replace(/^W\//, "").replace(/"/g, "");
+    return ethers.isHexString(etag, 32) ? etag : undefined;
+}
+
+/**
+ * Converts an HTTP date to a unix timestamp in seconds
+ *
+ * @param value - The header value, e.g. `Wed, 21 Oct 2015 07:28:00 GMT`
+ * @returns The timestamp, or undefined if the header is missing or invalid
+ */
+export function parseHttpDate(value: string | null): bigint | undefined {
+    if (!value) return undefined;
+    const time = Date.parse(value);
+    return isNaN(time) ? undefined : BigInt(Math.floor(time / 1000));
+}
@@ -8,80 +8,63 @@
  * - Parsing and validating WTTP URLs
  * - Resolving ENS names to Ethereum addresses
  * - Interacting with WTTP Gateway and Web3Site contracts
- * - Making HEAD and GET requests to WTTP resources
+ * - Making HEAD, GET, OPTIONS and LOCATE requests to WTTP resources
+ * 
+ * The configuration dependent functions are thin wrappers over a default WttpClient
+ * built from the bundled wttp.config. Create a WttpClient to use a different configuration.
  */
 
 // Import from the root directory for compatibility with the build process
-import {  
-    WttpGatewayFactory, 
-    Web3SiteFactory,
-    config
-} from "../../wttp.config";
+import { config } from "../../wttp.config";
 import { ethers } from "ethers";
 
-import { 
-    HEADRequestStruct, 
-    HEADResponseStruct, 
-    Web3Site 
-} from "../interfaces/contracts/Web3Site";
-import { 
-    GETRequestStruct, 
-    GETResponseStruct, 
-    WTTPGatewayV3 
-} from "../interfaces/contracts/WTTPGatewayV3";
 import { 
     WttpProvider, 
     WttpUrl, 
     GETOptions, 
-    HEADOptions, 
-    WttpNetworkConfig 
+    GETStreamOptions,
+    HEADOptions,
+    OPTIONSOptions,
+    LOCATEOptions,
+    LOCATEIteratorOptions,
+    WttpDataPoint,
+    WttpHEADResponse,
+    WttpGETResponse,
+    WttpOPTIONSResponse,
+    WttpLOCATEResponse,
+    WttpRequestInit
 } from "../interfaces/WTTPTypes";
-import { Web3Site__factory } from "../interfaces/contracts/Web3Site__factory";
-import { WTTPGatewayV3__factory } from "../interfaces/contracts/WTTPGatewayV3__factory";
+import { WttpClient } from "./wttpClient";
 
-/**
- * The current version of the WTTP protocol supported by this library
- */
-export const WTTP_VERSION = "WTTP/3.0";
+export {
+    WTTP_VERSION,
+    WTTP_METHODS,
+    decodeWttpMethods,
+    encodeWttpMethods,
+    formatEthereumAddress,
+    loadWttpHost,
+    checkWttpHost,
+    loadWttpGateway,
+    checkWttpGateway,
+    wttpErrorResponse
+} from "./wttpCore";
 
 /**
- * Formats and validates an Ethereum address
- * 
- * @param address - The Ethereum address to format and validate
- * @returns The checksummed Ethereum address
- * @throws Error if the address is invalid
+ * The client used by the module level functions, configured from wttp.config
  */
-export function formatEthereumAddress(address: string | ethers.Addressable): string {
-    try {
-        // Use ethers to validate the host is a valid address
-        const checksumAddress = ethers.getAddress(String(address));
-        // ethers.isAddress(checksumAddress); // try/catch implemented, so this is not needed
-        return checksumAddress;
-    } catch (error) {
-        throw `Invalid Ethereum address: ${address} - ${error}`;
-    }
-}
+export const defaultWttpClient = new WttpClient({ wttpConfig: config });
 
 /**
  * Resolves an ENS (Ethereum Name Service) name to its corresponding Ethereum address
  * 
  * @param name - The ENS name to resolve (e.g., "example.eth")
  * @returns Promise resolving to the Ethereum address
- * @throws Error if the ENS name cannot be resolved
+ * @throws WttpEnsError if the ENS name cannot be resolved
+ * @throws WttpNetworkError if the ENS network is not configured
+ * @throws WttpRpcError if no RPC endpoint of the ENS network is reachable
  */
 export async function resolveEnsName(name: string): Promise<string> {
-    const rpcUrl = config.networks.mainnet.rpcList[0];
-    const provider = new ethers.JsonRpcProvider(rpcUrl);
-    try {
-        const resolved = await provider.resolveName(name);
-        if (resolved) {
-            return resolved;
-        } else {
-            throw `Could not resolve ENS name: ${name}`;
-        }
-    } catch (error) {
-        throw `Invalid ENS name: ${name} - ${error}`;
-    }
+    return defaultWttpClient.resolveEnsName(name);
 }
 
 /**
@@ -89,54 +72,12 @@ export async function resolveEnsName(name: string): Promise<string> {
  * 
  * @param url - The WTTP URL to parse
  * @returns Promise resolving to a WttpUrl object containing parsed URL information
- * @throws Error if the URL is invalid or cannot be parsed
+ * @throws WttpUrlError if the URL or host address is invalid
+ * @throws WttpEnsError if the ENS host name cannot be resolved
+ * @throws WttpNetworkError if the network is not configured
  */
 export async function getWttpUrl(url: URL | string): Promise<WttpUrl> {
-    url = new URL(url);
-    if (!url.protocol.startsWith('wttp')) {
-        // console.log(`Protocol not supported: ${url.protocol}`);
-        throw `Invalid WTTP URL: ${url.protocol} - URL must start with wttp://`;
-    }
-
-    // Use port to determine network, or default to first network in config
-    const networkName = url.port || String(config.networks[Object.keys(config.networks)[0]].chainId);
-    const network = getNetworkAlias(networkName);
-    url.port = networkName;
-
-    try {
-        // Resolve host address (ENS or Ethereum address)
-        const hostAddress = await getHostAddress(url);
-        url.host = hostAddress;
-        // Get gateway address for the network
-        const gatewayAddress = getGatewayAddress(url);
-        return {
-            url,
-            network,
-            gateway: gatewayAddress,
-            host: hostAddress
-        }
-    } catch (error) {
-        throw `Bad Host or Gateway: ${url} - ${error}`;
-    }
-}
-
-/**
- * Maps network aliases to their canonical network names
- * 
- * @param alias - The network alias or chain ID
- * @returns The canonical network name
- */
-export function getNetworkAlias(alias: string): string {
-    const aliases: Record<string, string> = {
-        "leth": "localhost",
-        "local": "localhost",
-        "31337": "localhost",
-        "seth": "sepolia",
-        "11155111": "sepolia",
-        "eth": "mainnet",
-        "1": "mainnet",
-    }
-    return aliases[alias] || alias;
+    return defaultWttpClient.parseUrl(url);
 }
 
 /**
@@ -147,26 +88,47 @@ export function getNetworkAlias(alias: string): string {
  * @returns Promise resolving to the Ethereum address
  */
 export async function getHostAddress(url: string | URL): Promise<string> {
-    url = new URL(url);
-    const host = url.hostname;
-    if (host.endsWith('.eth')) {
-        return await resolveEnsName(host);
-    }
-    return formatEthereumAddress(host);
+    return defaultWttpClient.getHostAddress(url);
 }
 
 /**
  * Gets the WTTP gateway address for a given network
  * 
- * @param url - The URL containing network information in the port
+ * @param url - The URL containing the network information
  * @returns The Ethereum address of the WTTP gateway for the network
  */
 export function getGatewayAddress(url: URL | string): string {
-    url = new URL(url);
-    const networkAlias = getNetworkAlias(url.port);
-    const networkKeys = Object.keys(config.networks);
-    const network = networkAlias ? config.networks[networkAlias] : config.networks[networkKeys[0]];
-    return formatEthereumAddress(network.gateway);
+    return defaultWttpClient.getGatewayAddress(url);
+}
+
+/**
+ * Maps network names, chain IDs and aliases to their canonical network names, from the networks in wttp.config
+ * 
+ * @param alias - The network name, alias or chain ID
+ * @returns The canonical network name, or the alias itself if it matches no configured network
+ */
+export function getNetworkAlias(alias: string): string {
+    return defaultWttpClient.getNetworkAlias(alias);
+}
+
+/**
+ * Gets the network a WTTP URL points at
+ * 
+ * @param url - The WTTP URL, with the network in the port, a host label, the `network` query parameter or CAIP-2 userinfo
+ * @returns The canonical network name, or the default network if the URL does not specify one
+ */
+export function getUrlNetwork(url: URL | string): string {
+    return defaultWttpClient.getUrlNetwork(url);
+}
+
+/**
+ * Formats a WTTP URL in its canonical form, for stable links
+ * 
+ * @param url - The WTTP URL, with the network in any supported form
+ * @returns The URL with the chain ID in the port, or in a label after the host if it does not fit in the port
+ */
+export function formatUrl(url: URL | string): string {
+    return defaultWttpClient.formatUrl(url);
 }
 
 /**
@@ -183,276 +145,98 @@ export async function getWttpProvider(
     wttpUrl: WttpUrl, 
     signer?: ethers.Signer
 ): Promise<WttpProvider> {    
-    let network: WttpNetworkConfig;
-    let provider: ethers.JsonRpcProvider;
-    try {
-        // Get network configuration and create JSON-RPC provider
-        network = config.networks[wttpUrl.network];
-        provider = new ethers.JsonRpcProvider(network.rpcList[0], network.chainId);
-    } catch (error) {
-        throw `Invalid network ${wttpUrl.network} - could not mount provider: ${error}`;
-    }
-
-    try {
-        // Load the Web3Site contract (host) and WTTP Gateway contract
-        // Not technically needed for read-only operations, but good to have
-        // Will be needed for write methods in the future
-        const host = await loadWttpHost(wttpUrl.host, provider, signer);
-        const gateway = await loadWttpGateway(wttpUrl, provider, signer);
-
-        return { gateway, host };
-    } catch (error) {
-        throw `
-            Invalid WTTP contracts: \n
-            WTTP Gateway: ${wttpUrl.gateway}; \n
-            Web3Site: ${wttpUrl.host}; - ${error}
-        `;
-    }
+    return defaultWttpClient.getProvider(wttpUrl, signer);
 }
 
 /**
- * A HEAD request that will fail if sent to an invalid path
- * Used for testing if a contract implements the WTTP protocol
+ * Performs a GET request to a WTTP resource
+ * 
+ * @param url - The WTTP URL to request
+ * @param options - Optional parameters for the GET request
+ * @returns Promise resolving to a GETResponseStruct containing the response data
  */
-const failHeadRequest: HEADRequestStruct = {
-    requestLine: {
-        protocol: WTTP_VERSION,
-        path: "404", // should return 404 since the path doesn't start with a /
-        method: 0
-    },
-    ifModifiedSince: 0n,
-    ifNoneMatch: ethers.ZeroHash,
+export async function wttpGet(url: URL | string, options?: GETOptions): Promise<WttpGETResponse> {
+    return defaultWttpClient.get(url, options);
 }
 
 /**
- * Loads a Web3Site contract instance and verifies it implements the WTTP protocol
+ * Reads a WTTP resource as a stream of byte range windows
+ * Use this for resources too large to be returned by a single GET call
  * 
- * @param address - The Ethereum address of the Web3Site contract
- * @param provider - The Ethereum JSON-RPC provider
- * @param signer - Optional Ethereum signer for authenticated requests
- * @returns Promise resolving to a Web3Site contract instance
- * @throws Error if the contract is invalid or doesn't implement the WTTP protocol
+ * @param url - The WTTP URL to request
+ * @param options - Optional parameters for the requests, and the window size and parallelism
+ * @returns A byte stream of the resource content
  */
-export async function loadWttpHost(
-    address: string | ethers.Addressable, 
-    provider: ethers.JsonRpcProvider, 
-    signer?: ethers.Signer
-): Promise<Web3Site> {
-    try {
-        // Create a random wallet if no signer is provided
-        signer = signer || ethers.Wallet.createRandom();
-        let siteFactory = new Web3Site__factory(signer.connect(provider));
-        let site = siteFactory.attach(address) as Web3Site;
-        // Test if the contract implements the WTTP protocol
-        await site.HEAD(failHeadRequest);
-        return site;
-    } catch(error) {
-        throw `Invalid WTTP Host: ${address} - invalid contract: ${error}`;
-        // should throw a 501 Not Implemented error upstream
-    }
+export function wttpGetStream(url: URL | string, options?: GETStreamOptions): ReadableStream<Uint8Array> {
+    return defaultWttpClient.getStream(url, options);
 }
 
 /**
- * Checks if a Web3Site contract implements the WTTP protocol
+ * Reads a WTTP resource as an async iterator of byte range windows
  * 
- * @param host - The Web3Site contract instance to check
- * @returns Promise resolving to true if the contract is valid, false otherwise
+ * @param url - The WTTP URL to request
+ * @param options - Optional parameters for the requests, and the window size and parallelism
+ * @returns Async iterator yielding the resource content in order
  */
-export async function checkWttpHost(host: Web3Site): Promise<boolean> {
-    try {
-        // A successful call means the host is valid
-        await host.HEAD(failHeadRequest);
-        return true;
-    } catch(error) {
-        return false;
-        // should throw a 501 Not Implemented error upstream
-    }
+export function wttpGetChunks(url: URL | string, options?: GETStreamOptions): AsyncGenerator<Uint8Array> {
+    return defaultWttpClient.getChunks(url, options);
 }
 
 /**
- * Loads a WTTP Gateway contract instance and verifies it implements the WTTP protocol
+ * Performs a HEAD request to a WTTP resource
  * 
- * @param wttpUrl - The parsed WTTP URL information
- * @param provider - The Ethereum JSON-RPC provider
- * @param signer - Optional Ethereum signer for authenticated requests
- * @returns Promise resolving to a WTTPGatewayV3 contract instance
- * @throws Error if the contract is invalid or doesn't implement the WTTP protocol
+ * @param url - The WTTP URL to request
+ * @param options - Optional parameters for the HEAD request
+ * @returns Promise resolving to a HEADResponseStruct containing the response metadata
+ * @throws Error if the URL is invalid or the provider cannot be created
  */
-export async function loadWttpGateway(wttpUrl: WttpUrl, provider: ethers.JsonRpcProvider, signer?: ethers.Signer): Promise<WTTPGatewayV3> {
-    try {
-        // Create a random wallet if no signer is provided
-        signer = signer || ethers.Wallet.createRandom();
-        let gatewayFactory = new WTTPGatewayV3__factory(signer.connect(provider));
-        let gateway = gatewayFactory.attach(wttpUrl.gateway) as WTTPGatewayV3;
-        // Test if the contract implements the WTTP protocol
-        await gateway.HEAD(wttpUrl.host, failHeadRequest);
-        return gateway;
-    } catch(error) {
-        throw `Invalid WTTP Gateway: ${wttpUrl.gateway} - invalid contract: ${error}`;
-        // should throw a 502 Bad Gateway error upstream
-    }
+export async function wttpHead(url: URL | string, options?: HEADOptions): Promise<WttpHEADResponse> {
+    return defaultWttpClient.head(url, options);
 }
 
 /**
- * Checks if a WTTP Gateway contract implements the WTTP protocol
+ * Performs a fetch-style request to a WTTP resource
  * 
- * @param gateway - The WTTPGatewayV3 contract instance to check
- * @param host - The Ethereum address of the Web3Site contract
- * @returns Promise resolving to true if the contract is valid, false otherwise
+ * @param input - The WTTP URL to request, or a `Request` object targeting a WTTP URL
+ * @param init - Optional request settings; `method` selects HEAD or GET (defaults to GET)
+ * @returns Promise resolving to a standard `Response` with the mapped status, headers and body
+ * @throws TypeError if the URL is invalid or the provider cannot be created
  */
-export async function checkWttpGateway(gateway: WTTPGatewayV3, host: string | ethers.Addressable): Promise<boolean> {
-    try {
-        // A successful call means the gateway is valid
-        await gateway.HEAD(host, failHeadRequest);
-        return true;
-    } catch(error) {
-        return false;
-        // should throw a 502 Bad Gateway error upstream
-    }
+export async function wttpFetch(input: string | URL | Request, init?: WttpRequestInit): Promise<Response> {
+    return defaultWttpClient.fetch(input, init);
 }
 
 /**
- * Performs a GET request to a WTTP resource
+ * Performs an OPTIONS request to a WTTP resource
  * 
  * @param url - The WTTP URL to request
- * @param options - Optional parameters for the GET request
- * @returns Promise resolving to a GETResponseStruct containing the response data
+ * @param options - Optional parameters for the OPTIONS request
+ * @returns Promise resolving to the response status and the methods allowed on the resource, or the diagnosed status of a failed call
+ * @throws WttpError if the URL is invalid or the provider cannot be created
  */
-export async function wttpGet(url: URL | string, options?: GETOptions): Promise<GETResponseStruct> {
-    url = new URL(url);
-    
-    // Parse the URL and create a provider
-    let wttpUrl: WttpUrl = await getWttpUrl(url);
-    let wttpProvider: WttpProvider = await getWttpProvider(wttpUrl, options?.signer);
-
-    // Create the GET request structure
-    const getReq: GETRequestStruct = {
-        head: {
-            requestLine: {
-                protocol: WTTP_VERSION,
-                path: url.pathname,
-                method: 1 // GET bitmask
-            },
-            ifModifiedSince: options?.ifModifiedSince || 0n,
-            ifNoneMatch: options?.ifNoneMatch || ethers.ZeroHash,
-        },
-        rangeBytes: options?.range || { start: 0, end: 0 },
-    }
-    try {
-        // Send the GET request through the gateway
-        const response = await wttpProvider.gateway.GET(wttpUrl.host, getReq);
-        return response;
-    } catch(error) {
-        // Handle errors with appropriate HTTP status codes
-        let statusCode: bigint = 500n; // Internal Server Error by default
-        if (wttpProvider.gateway && !checkWttpGateway(wttpProvider.gateway, wttpUrl.host)) {
-            statusCode = 502n; // Bad Gateway
-            if (wttpProvider.host && !checkWttpHost(wttpProvider.host)) {
-                statusCode = 501n; // Not Implemented
-            }
-        }
-
-        // Return an empty response with the appropriate error status code
-        return wttpErrorResponse(statusCode);
-    }
+export async function wttpOptions(url: URL | string, options?: OPTIONSOptions): Promise<WttpOPTIONSResponse> {
+    return defaultWttpClient.options(url, options);
 }
 
 /**
- * Creates an error response for WTTP requests
+ * Performs a LOCATE request to a WTTP resource
  * 
- * @param statusCode - The HTTP status code for the error
- * @param wttpUrl - Optional WTTP URL information to include in the error message
- * @returns A GETResponseStruct with the error information
+ * @param url - The WTTP URL to request
+ * @param options - Optional parameters for the LOCATE request, including the `chunkRange` window
+ * @returns Promise resolving to the response head and the data point addresses backing the resource, or the diagnosed status of a failed call
+ * @throws WttpError if the URL is invalid or the provider cannot be created
  */
-export function wttpErrorResponse(statusCode: bigint, wttpUrl?: WttpUrl): GETResponseStruct {
-    return {
-        head: {
-            responseLine: {
-                protocol: WTTP_VERSION,
-                code: statusCode
-            },
-            headerInfo: {
-                methods: 0n,
-                cache: { 
-                    maxAge: 0n, 
-                    noStore: false, 
-                    noCache: false, 
-                    immutableFlag: false, 
-                    publicFlag: false 
-                },
-                redirect: { code: 0n, location: '' },
-                resourceAdmin: ethers.ZeroAddress
-            },
-            metadata: {
-                mimeType: '',
-                charset: '',
-                encoding: '',
-                language: '',
-                size: 0n,
-                version: 0n,
-                lastModified: 0n,
-                header: ethers.ZeroHash
-            },
-            etag: ethers.ZeroHash
-        },
-        bytesRange: { start:0, end:0 },
-        data: wttpUrl ? `Gateway: ${wttpUrl.gateway} - Host: ${wttpUrl.host}` : ''
-    }
+export async function wttpLocate(url: URL | string, options?: LOCATEOptions): Promise<WttpLOCATEResponse> {
+    return defaultWttpClient.locate(url, options);
 }
 
 /**
- * Performs a HEAD request to a WTTP resource
+ * Pages through all data points of a WTTP resource
  * 
  * @param url - The WTTP URL to request
- * @param options - Optional parameters for the HEAD request
- * @returns Promise resolving to a HEADResponseStruct containing the response metadata
- * @throws Error if the URL is invalid or the provider cannot be created
+ * @param options - Optional parameters for the LOCATE requests and the number of data points per request
+ * @returns Async iterator yielding each data point with its chunk index
  */
-export async function wttpHead(url: URL | string, options?: HEADOptions): Promise<HEADResponseStruct> {
-    url = new URL(url);
-
-    // Parse the URL
-    let wttpUrl: WttpUrl;
-    try {
-        wttpUrl = await getWttpUrl(url);
-    } catch(error) {
-        throw `Invalid WTTP URL: ${error}`;
-    }
-
-    // Create a provider
-    let wttpProvider: WttpProvider;
-    try {
-        wttpProvider = await getWttpProvider(wttpUrl, options?.signer);
-    } catch(error) {
-        throw `Failed to mount WTTP Provider: ${error}`;
-    }
-    
-    // Create the HEAD request structure
-    const headReq: HEADRequestStruct = {
-        requestLine: {
-            protocol: WTTP_VERSION,
-            path: url.pathname,
-            method: 0
-        },
-        ifModifiedSince: options?.ifModifiedSince || 0n,
-        ifNoneMatch: options?.ifNoneMatch || ethers.ZeroHash,
-    }
-
-    try {
-        // Send the HEAD request through the gateway
-        const response = await wttpProvider.gateway.HEAD(wttpUrl.host, headReq);
-        return response;
-    } catch(error) {
-        // Handle errors with appropriate HTTP status codes
-        let statusCode: bigint = 500n; // Internal Server Error by default
-        if (wttpProvider.gateway && !checkWttpGateway(wttpProvider.gateway, wttpUrl.host)) {
-            statusCode = 502n; // Bad Gateway
-            if (wttpProvider.host && !checkWttpHost(wttpProvider.host)) {
-                statusCode = 501n; // Not Implemented
-            }
-        }
-
-        // Return an empty response with the appropriate error status code
-        return wttpErrorResponse(statusCode, wttpUrl).head;
-    }
+export function wttpLocateChunks(url: URL | string, options?: LOCATEIteratorOptions): AsyncGenerator<WttpDataPoint> {
+    return defaultWttpClient.locateChunks(url, options);
 }
@@ -0,0 +1,163 @@
+/**
+ * WTTP Range Module
+ *
+ * This module parses HTTP `Range` header values for GET requests. The forms of
+ * RFC 9110 are supported:
+ * - `bytes=0-1023` for the first 1024 bytes
+ * - `bytes=1024-` for everything from byte 1024
+ * - `bytes=-500` for the last 500 bytes
+ * - `bytes=0-99,200-299` for several ranges at once
+ *
+ * Ranges are resolved against the size of the resource into `{ start, end }`
+ * windows, where `end` is exclusive like the `rangeBytes` of a GET request, and
+ * multi-range results can be encoded as a `multipart/byteranges` body.
+ * Overlapping and adjacent ranges are merged (RFC 9110 §14.2), so a header
+ * repeating the same range costs a single gateway call.
+ */
+
+import { ethers } from "ethers";
+
+import { WttpByteRange, WttpGETResponse } from "../interfaces/WTTPTypes";
+import { decodeWttpMetadata } from "./wttpCodec";
+import { WttpRangeError } from "./wttpErrors";
+
+/**
+ * Maximum number of ranges accepted in a single request
+ */
+export const MAX_RANGE_PARTS = 100;
+
+/**
+ * A range as written in the header, before the size of the resource is known
+ * `first` and `last` are inclusive byte positions, `suffix` is a number of bytes from the end
+ */
+export type WttpRangeSpec =
+    | { first: number; last?: number }
+    | { suffix: number };
+
+/**
+ * Parses the value of a `Range` header
+ *
+ * @param value - The header value, e.g. `bytes=0-1023` or `bytes=-500`
+ * @returns The ranges, in request order
+ * @throws WttpRangeError if the value is malformed, uses a unit other than bytes or has too many ranges
+ */
+export function parseByteRanges(value: string): WttpRangeSpec[] {
+    const match = value.trim().match(/^bytes\s*=\s*(.+)$/i);
+    if (!match) {
+        throw new WttpRangeError(`Invalid range: ${value} - expected bytes=<ranges>`, "INVALID_RANGE");
+    }
+    const specs = match[1].split(",").map((part) => part.trim()).filter(Boolean).map((part) => {
+        const bounds = part.match(/^(\d*)\s*-\s*(\d*)$/);
+        if (!bounds || (!bounds[1] && !bounds[2])) {
+            throw new WttpRangeError(`Invalid range: ${part} in ${value}`, "INVALID_RANGE");
+        }
+        if (!bounds[1]) {
+            return { suffix: Number(bounds[2]) };
+        }
+        const first = Number(bounds[1]);
+        const last = bounds[2] ? Number(bounds[2]) : undefined;
+        if (last !== undefined && last < first) {
+            throw new WttpRangeError(`Invalid range: ${part} in ${value} - the last byte is before the first`, "INVALID_RANGE");
+        }
+        return { first, last };
+    });
+    if (!specs.length) {
+        throw new WttpRangeError(`Invalid range: ${value} - no ranges`, "INVALID_RANGE");
+    }
+    if (specs.length > MAX_RANGE_PARTS) {
+        throw new WttpRangeError(`Invalid range: ${value} - more than ${MAX_RANGE_PARTS} ranges`, "INVALID_RANGE");
+    }
+    return specs;
+}
+
+/**
+ * Resolves the ranges of a `Range` header against the size of the resource
+ * Ranges reaching past the end are shortened, ranges starting past the end are dropped,
+ * and overlapping or adjacent ranges are merged into one
+ *
+ * @param value - The header value, or its parsed ranges
+ * @param size - The size of the resource in bytes
+ * @returns The satisfiable ranges, in ascending order, with an exclusive `end`
+ * @throws WttpRangeError with status 400 if the value is malformed
+ * @throws WttpRangeError with status 416 if no range lies within the resource
+ */
+export function resolveByteRanges(value: string | WttpRangeSpec[], size: number): WttpByteRange[] {
+    const specs = typeof value === "string" ? parseByteRanges(value) : value;
+    const ranges: WttpByteRange[] = [];
+    for (const spec of specs) {
+        if ("suffix" in spec) {
+            if (spec.suffix > 0 && size > 0) {
+                ranges.push({ start: Math.max(size - spec.suffix, 0), end: size });
+            }
+        } else if (spec.first < size) {
+            ranges.push({ start: spec.first, end: Math.min((spec.last ?? Infinity) + 1, size) });
+        }
+    }
+    if (!ranges.length) {
+        throw new WttpRangeError(`Range not satisfiable: ${formatRanges(specs)} of ${size} bytes`, "RANGE_NOT_SATISFIABLE", { size });
+    }
+    ranges.sort((a, b) => a.start - b.start);
+    const merged: WttpByteRange[] = [ranges[0]];
+    for (const range of ranges.slice(1)) {
+        const last = merged[merged.length - 1];
+        if (range.start <= last.end) {
+            last.end = Math.max(last.end, range.end);
+        } else {
+            merged.push(range);
+        }
+    }
+    return merged;
+}
+
+/**
+ * Formats a `Content-Range` header value
+ *
+ * @param range - The range, with an exclusive `end`
+ * @param size - The size of the resource in bytes
+ * @returns The header value, e.g. `bytes 0-1023/4096`
+ */
+export function formatContentRange(range: WttpByteRange, size: number): string {
+    return `bytes ${range.start}-${range.end - 1}/${size}`;
+}
+
+/**
+ * Encodes the parts of a multi-range GET response as a `multipart/byteranges` body
+ *
+ * @param response - The GET response carrying `parts`
+ * @param boundary - Optional multipart boundary, random by default
+ * @returns The `Content-Type` header value and the body
+ * @throws TypeError if the response has no parts
+ */
+export function toMultipartByteRanges(response: WttpGETResponse, boundary?: string): { contentType: string; body: Uint8Array } {
+    if (!response.parts) {
+        throw new TypeError("toMultipartByteRanges requires a multi-range GET response");
+    }
+    boundary = boundary || `wttp-${ethers.hexlify(ethers.randomBytes(12)).slice(2)}`;
+    const size = Number(response.head.metadata.size);
+    const contentType = decodeWttpMetadata(response.head.metadata).contentType;
+
+    const chunks: Uint8Array[] = [];
+    for (const part of response.parts) {
+        const headers = [
+            `--${boundary}`,
+            contentType ? `Content-Type: ${contentType}` : undefined,
+            `Content-Range: ${formatContentRange(part, size)}`
+        ].filter(Boolean).join("\r\n");
+        chunks.push(ethers.toUtf8Bytes(`${headers}\r\n\r\n`), part.body, ethers.toUtf8Bytes("\r\n"));
+    }
+    chunks.push(ethers.toUtf8Bytes(`--${boundary}--\r\n`));
+    return {
+        contentType: `multipart/byteranges; boundary=${boundary}`,
+        body: ethers.getBytes(ethers.concat(chunks))
+    };
+}
+
+/**
+ * Formats parsed ranges back to their header form, for error messages
+ *
+ * @param specs - The parsed ranges
+ * @returns The header value
+ */
+function formatRanges(specs: WttpRangeSpec[]): string {
+    return `bytes=${specs.map((spec) => "suffix" in spec ? `-${spec.suffix}` : `${spec.first}-${spec.last ?? ""}`).join(",")}`;
+}
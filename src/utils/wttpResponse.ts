@@ -0,0 +1,236 @@
+/**
+ * WTTP Response Module
+ *
+ * This module provides the WttpResponse class, a plain model of a WTTP response.
+ * Gateway results are ethers `Result` objects holding `bigint`s, which cannot be
+ * passed to `JSON.stringify`, cloned to workers or logged as is. A WttpResponse
+ * only holds numbers, strings, booleans, Dates and a Uint8Array body, and converts
+ * to and from a versioned JSON schema that is safe to persist.
+ */
+
+import { ethers } from "ethers";
+
+import { HEADResponseStruct, GETResponseStruct } from "../interfaces/contracts/WTTPGatewayV3";
+import {
+    WttpCacheControl,
+    WttpContentInfo,
+    WttpMethodName,
+    WttpRedirect,
+    WttpResourceMetadata,
+    WttpResponseData,
+    WttpResponseJSON
+} from "../interfaces/WTTPTypes";
+import { createWttpBody } from "./wttpBody";
+import { decodeWttpMetadata } from "./wttpCodec";
+import { decodeWttpMethods, encodeWttpMethods } from "./wttpCore";
+
+/**
+ * Version of the JSON schema written by WttpResponse.toJSON
+ */
+export const WTTP_RESPONSE_SCHEMA = 1;
+
+/**
+ * A plain, serializable WTTP response
+ */
+export class WttpResponse implements WttpResponseData {
+    readonly protocol: string;
+    readonly status: number;
+    readonly headers: { methods: WttpMethodName[]; resourceAdmin: string };
+    readonly cache: WttpCacheControl;
+    readonly redirect: WttpRedirect;
+    readonly metadata: WttpResourceMetadata;
+    readonly etag: string;
+    readonly range?: { start: number; end: number };
+    readonly body?: Uint8Array;
+
+    /**
+     * Creates a response from plain data, e.g. a WttpResponse cloned to a worker
+     *
+     * @param data - The response data
+     */
+    constructor(data: WttpResponseData) {
+        this.protocol = data.protocol;
+        this.status = data.status;
+        this.headers = { methods: [...data.headers.methods], resourceAdmin: data.headers.resourceAdmin };
+        this.cache = { ...data.cache };
+        this.redirect = { ...data.redirect };
+        this.metadata = { ...data.metadata };
+        this.etag = data.etag;
+        this.range = data.range && { ...data.range };
+        this.body = data.body;
+    }
+
+    /**
+     * Converts a HEAD or GET response returned by the gateway
+     *
+     * @param response - The HEADResponseStruct or GETResponseStruct
+     * @returns The plain response
+     */
+    static from(response: HEADResponseStruct | GETResponseStruct): WttpResponse {
+        if ("head" in response) {
+            return new WttpResponse({
+                ...fromHead(response.head),
+                range: { start: Number(response.bytesRange.start), end: Number(response.bytesRange.end) },
+                // Reuse the body decoded by the client instead of converting the data again
+                body: (response as { body?: Uint8Array }).body ?? createWttpBody(response.data).body
+            });
+        }
+        return new WttpResponse(fromHead(response));
+    }
+
+    /**
+     * Restores a response written by toJSON
+     *
+     * @param json - The JSON object, or its string form
+     * @returns The response
+     * @throws TypeError if the JSON does not follow the WttpResponse schema
+     */
+    static fromJSON(json: WttpResponseJSON | string): WttpResponse {
+        const value: WttpResponseJSON = typeof json === "string" ? JSON.parse(json) : json;
+        if (!value || value.schema !== WTTP_RESPONSE_SCHEMA) {
+            throw new TypeError(`Unsupported WttpResponse schema: ${value?.schema}`);
+        }
+        if (typeof value.status !== "number" || !value.metadata || !value.headers || !value.cache || !value.redirect) {
+            throw new TypeError("Invalid WttpResponse JSON: missing status, headers, cache, redirect or metadata");
+        }
+        const { schema, metadata, body, ...data } = value;
+        return new WttpResponse({
+            ...data,
+            metadata: {
+                ...metadata,
+                lastModified: metadata.lastModified === undefined ? undefined : new Date(metadata.lastModified)
+            },
+            body: body === undefined ? undefined : ethers.decodeBase64(body)
+        });
+    }
+
+    /**
+     * The decoded MIME type, charset, encoding and language of the resource
+     */
+    get content(): WttpContentInfo {
+        return decodeWttpMetadata(this.metadata);
+    }
+
+    /**
+     * Converts the response to its JSON schema
+     * Dates are written as ISO strings and the body as base64
+     *
+     * @returns The JSON object
+     */
+    toJSON(): WttpResponseJSON {
+        const { metadata, body, ...data } = this;
+        return {
+            schema: WTTP_RESPONSE_SCHEMA,
+            ...data,
+            metadata: {
+                ...metadata,
+                lastModified: metadata.lastModified?.toISOString()
+            },
+            body: body === undefined ? undefined : ethers.encodeBase64(body)
+        };
+    }
+
+    /**
+     * Converts the response back to the HEAD response structure of the gateway
+     *
+     * @returns The HEADResponseStruct
+     */
+    toHead(): HEADResponseStruct {
+        return {
+            responseLine: { protocol: this.protocol, code: BigInt(this.status) },
+            headerInfo: {
+                methods: BigInt(encodeWttpMethods(this.headers.methods)),
+                cache: { ...this.cache, maxAge: BigInt(this.cache.maxAge) },
+                redirect: { code: BigInt(this.redirect.code), location: this.redirect.location },
+                resourceAdmin: this.headers.resourceAdmin
+            },
+            metadata: {
+                mimeType: this.metadata.mimeType,
+                charset: this.metadata.charset,
+                encoding: this.metadata.encoding,
+                language: this.metadata.language,
+                size: BigInt(this.metadata.size),
+                version: BigInt(this.metadata.version),
+                lastModified: BigInt(Math.floor((this.metadata.lastModified?.getTime() ?? 0) / 1000)),
+                header: this.metadata.header
+            },
+            etag: this.etag
+        };
+    }
+
+    /**
+     * Gets the body bytes
+     *
+     * @returns The body, empty for HEAD responses
+     */
+    bytes(): Uint8Array {
+        return this.body ?? new Uint8Array();
+    }
+
+    /**
+     * Decodes the body as text, using the resource charset
+     *
+     * @returns The body text
+     */
+    text(): string {
+        return createWttpBody(this.bytes(), this.metadata.charset).text();
+    }
+
+    /**
+     * Parses the body as JSON
+     *
+     * @returns The parsed body
+     */
+    json<T = unknown>(): T {
+        return JSON.parse(this.text()) as T;
+    }
+}
+
+/**
+ * Converts the HEAD response structure into plain response data
+ *
+ * @param head - The HEADResponseStruct
+ * @returns The response data without a body
+ */
+function fromHead(head: HEADResponseStruct): WttpResponseData {
+    const { cache, redirect } = head.headerInfo;
+    const lastModified = Number(head.metadata.lastModified);
+    return {
+        protocol: head.responseLine.protocol,
+        status: Number(head.responseLine.code),
+        headers: {
+            methods: decodeWttpMethods(head.headerInfo.methods),
+            resourceAdmin: ethers.hexlify(head.headerInfo.resourceAdmin)
+        },
+        cache: {
+            maxAge: Number(cache.maxAge),
+            noStore: cache.noStore,
+            noCache: cache.noCache,
+            immutableFlag: cache.immutableFlag,
+            publicFlag: cache.publicFlag
+        },
+        redirect: { code: Number(redirect.code), location: redirect.location },
+        metadata: {
+            mimeType: toHex(head.metadata.mimeType),
+            charset: toHex(head.metadata.charset),
+            encoding: toHex(head.metadata.encoding),
+            language: toHex(head.metadata.language),
+            size: Number(head.metadata.size),
+            version: Number(head.metadata.version),
+            lastModified: lastModified > 0 ? new Date(lastModified * 1000) : undefined,
+            header: toHex(head.metadata.header)
+        },
+        etag: toHex(head.etag)
+    };
+}
+
+/**
+ * Normalizes a bytes value to a hex string
+ * Error responses leave the metadata codes empty, which is kept as `0x`
+ *
+ * @param value - The bytes value
+ * @returns The hex string
+ */
+function toHex(value: ethers.BytesLike): string {
+    return value ? ethers.hexlify(value) : "0x";
+}
@@ -0,0 +1,138 @@
+/**
+ * WTTP Retry Module
+ *
+ * This module retries WTTP calls that fail on transient RPC errors. Public RPCs
+ * regularly answer with rate limits, bad gateways or dropped connections, so a
+ * failed call is repeated with exponential backoff and jitter before it is
+ * reported. Only idempotent view methods (HEAD, GET, OPTIONS and LOCATE) are
+ * ever retried.
+ */
+
+import { ethers } from "ethers";
+
+import { WttpRetryPolicy } from "../interfaces/WTTPTypes";
+import { isAbortError } from "./wttpAbort";
+import { WttpRpcError } from "./wttpErrors";
+
+/**
+ * Default retry policy
+ */
+export const DEFAULT_RETRY_POLICY: Required<WttpRetryPolicy> = {
+    maxAttempts: 3,
+    baseDelayMs: 200,
+    maxDelayMs: 5000,
+    jitter: 0.5,
+    retryOn: isRetryableError
+};
+
+/**
+ * WTTP method numbers that only read state and are safe to repeat
+ * HEAD, GET, OPTIONS and LOCATE
+ */
+export const IDEMPOTENT_METHODS = [0, 1, 6, 7];
+
+/**
+ * Network error codes reported by Node.js for dropped or refused connections
+ */
+const TRANSIENT_ERROR_CODES = ["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "EPIPE", "EAI_AGAIN", "UND_ERR_SOCKET"];
+
+/**
+ * HTTP status codes that signal a temporary RPC failure
+ */
+const TRANSIENT_STATUS_CODES = [408, 429, 500, 502, 503, 504];
+
+/**
+ * Checks if an error is a transient RPC failure worth retrying
+ * Contract reverts, invalid input and aborted requests are never retried
+ *
+ * @param error - The error thrown by the call
+ * @returns True if the call may succeed when repeated
+ */
+export function isRetryableError(error: unknown): boolean {
+    if (isAbortError(error)) {
+        return false;
+    }
+    if (error instanceof WttpRpcError) {
+        return true;
+    }
+    if (ethers.isError(error, "TIMEOUT") || ethers.isError(error, "NETWORK_ERROR")) {
+        return true;
+    }
+    if (ethers.isError(error, "SERVER_ERROR")) {
+        const status = error.response?.statusCode;
+        return status === undefined || TRANSIENT_STATUS_CODES.includes(status);
+    }
+    const code = (error as { code?: unknown })?.code;
+    if (typeof code === "string" && TRANSIENT_ERROR_CODES.includes(code)) {
+        return true;
+    }
+    const cause = (error as { cause?: unknown })?.cause;
+    return cause !== undefined && cause !== error && isRetryableError(cause);
+}
+
+/**
+ * Gets the delay before the next attempt
+ *
+ * @param attempt - The attempt that just failed, starting at 1
+ * @param policy - The retry policy
+ * @returns The delay in milliseconds
+ */
+export function getRetryDelay(attempt: number, policy: Required<WttpRetryPolicy>): number {
+    const delay = Math.min(policy.baseDelayMs * 2 ** (attempt - 1), policy.maxDelayMs);
+    const jitter = Math.min(Math.max(policy.jitter, 0), 1);
+    return Math.round(delay * (1 - jitter * Math.random()));
+}
+
+/**
+ * Calls a WTTP method, repeating it on transient failures
+ * Methods that are not idempotent are called exactly once
+ *
+ * @param method - The WTTP method number of the call
+ * @param call - The call to make, receiving the attempt number starting at 1
+ * @param policy - The retry policy
+ * @param signal - Optional request signal, which also interrupts the backoff
+ * @returns Promise resolving to the result of the first successful attempt
+ * @throws The error of the last attempt, or the abort reason of the signal
+ */
+export async function withRetry<T>(
+    method: number,
+    call: (attempt: number) => Promise<T>,
+    policy: Required<WttpRetryPolicy>,
+    signal?: AbortSignal
+): Promise<T> {
+    const maxAttempts = IDEMPOTENT_METHODS.includes(method) ? Math.max(policy.maxAttempts, 1) : 1;
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await call(attempt);
+        } catch (error) {
+            if (attempt >= maxAttempts || signal?.aborted || !policy.retryOn(error)) {
+                throw error;
+            }
+        }
+        await sleep(getRetryDelay(attempt, policy), signal);
+    }
+}
+
+/**
+ * Waits for a delay, ending early if the signal aborts
+ *
+ * @param ms - The delay in milliseconds
+ * @param signal - Optional request signal
+ * @throws The abort reason of the signal
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            return reject(signal.reason);
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal!.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
@@ -0,0 +1,289 @@
+/**
+ * WTTP RPC Module
+ *
+ * This module provides a JSON-RPC provider that fails over across the RPC endpoints
+ * listed in a WttpNetworkConfig. Public endpoints are often down or rate limited,
+ * so each request is sent to the healthiest available endpoint and retried on the
+ * next one when the transport fails.
+ *
+ * The module includes:
+ * - Endpoint ordering by configuration order or by health score
+ * - Timeouts and rate limit (429) handling
+ * - Temporary ejection of endpoints that fail repeatedly
+ * - Sessions reporting the endpoint that served each call of a request
+ */
+
+import { ethers } from "ethers";
+
+import {
+    WttpNetworkConfig,
+    WttpRpcEndpoint,
+    WttpRpcOptions
+} from "../interfaces/WTTPTypes";
+import { WttpRpcError } from "./wttpErrors";
+
+/**
+ * Default settings for the RPC failover layer
+ */
+export const DEFAULT_RPC_OPTIONS: Required<WttpRpcOptions> = {
+    strategy: "ordered",
+    timeoutMs: 10000,
+    maxFailures: 3,
+    ejectMs: 60000
+};
+
+/**
+ * JSON-RPC error codes used by public endpoints to signal rate limiting
+ */
+const RATE_LIMIT_CODES = [-32005, -32029, 429];
+
+/**
+ * Creates the health state for each RPC endpoint of a network
+ *
+ * @param network - The network configuration containing the RPC list
+ * @returns The endpoint states, in configuration order
+ */
+export function createRpcEndpoints(network: Pick<WttpNetworkConfig, "rpcList">): WttpRpcEndpoint[] {
+    return network.rpcList.map((url) => ({
+        url,
+        score: 1,
+        failures: 0,
+        ejectedUntil: 0
+    }));
+}
+
+/**
+ * Orders RPC endpoints for the next request
+ * Ejected endpoints are skipped until their cooldown expires, unless every endpoint is ejected
+ *
+ * @param endpoints - The endpoint states
+ * @param strategy - "ordered" keeps the configuration order, "health" prefers the highest score
+ * @returns The endpoints to try, in order
+ */
+export function getRpcEndpointOrder(endpoints: WttpRpcEndpoint[], strategy: WttpRpcOptions["strategy"]): WttpRpcEndpoint[] {
+    const now = Date.now();
+    const available = endpoints.filter((endpoint) => endpoint.ejectedUntil <= now);
+    const ordered = available.length ? [...available] : [...endpoints];
+    if (strategy === "health") {
+        ordered.sort((a, b) => (b.score - a.score) || ((a.latencyMs ?? Infinity) - (b.latencyMs ?? Infinity)));
+    }
+    return ordered;
+}
+
+/**
+ * A JSON-RPC provider that fails over across the RPC endpoints of a network
+ */
+export class WttpRpcProvider extends ethers.JsonRpcProvider {
+    /**
+     * The health state of the endpoints, shared with other providers for the same network
+     */
+    readonly endpoints: WttpRpcEndpoint[];
+
+    private rpcOptions: Required<WttpRpcOptions>;
+
+    /**
+     * The ID of the last call sent with callWithEndpoint
+     */
+    private callId = 0;
+
+    /**
+     * Creates a failover provider
+     *
+     * @param network - The network configuration, only its RPC list and chain ID are used
+     * @param endpoints - The endpoint health state, created from the network if not provided
+     * @param options - Optional failover settings
+     * @param ensRegistry - Optional address of the ENS registry, replacing the one ethers knows for the chain
+     */
+    constructor(network: Pick<WttpNetworkConfig, "rpcList" | "chainId">, endpoints?: WttpRpcEndpoint[], options?: WttpRpcOptions, ensRegistry?: string) {
+        // The chain ID is known from the configuration, so skip network detection on every request
+        const staticNetwork = getStaticNetwork(network.chainId, ensRegistry);
+        super(network.rpcList[0], staticNetwork, { staticNetwork });
+        this.endpoints = endpoints || createRpcEndpoints(network);
+        this.rpcOptions = { ...DEFAULT_RPC_OPTIONS, ...options };
+    }
+
+    /**
+     * Sends a JSON-RPC payload to the first endpoint that answers
+     * Transport failures, timeouts and rate limits move on to the next endpoint,
+     * while JSON-RPC errors such as contract reverts are returned to the caller
+     *
+     * @param payload - The JSON-RPC payload or batch
+     * @returns Promise resolving to the JSON-RPC results
+     * @throws WttpRpcError if every endpoint fails
+     */
+    async _send(payload: ethers.JsonRpcPayload | Array<ethers.JsonRpcPayload>): Promise<Array<ethers.JsonRpcResult>> {
+        const { results } = await this.sendWithFailover(payload);
+        return results;
+    }
+
+    /**
+     * Performs an eth_call on its own, outside the batches of concurrent requests,
+     * so the endpoint that served it can be reported
+     *
+     * @param tx - The call, with resolved addresses
+     * @returns Promise resolving to the call result and the URL of the endpoint that served it
+     * @throws CallExceptionError if the call reverts
+     * @throws WttpRpcError if every endpoint fails
+     */
+    async callWithEndpoint(tx: ethers.TransactionRequest): Promise<{ result: string; endpoint: string }> {
+        const payload: ethers.JsonRpcPayload = { method: "eth_call", params: [this.getRpcTransaction(tx), "latest"], id: ++this.callId, jsonrpc: "2.0" };
+        const { results: [response], endpoint } = await this.sendWithFailover(payload);
+        if ("error" in response) {
+            throw this.getRpcError(payload, response as ethers.JsonRpcError);
+        }
+        return { result: response.result, endpoint };
+    }
+
+    /**
+     * Sends a JSON-RPC payload to the first endpoint that answers
+     *
+     * @param payload - The JSON-RPC payload or batch
+     * @returns Promise resolving to the JSON-RPC results and the URL of the endpoint that served them
+     * @throws WttpRpcError if every endpoint fails
+     */
+    private async sendWithFailover(payload: ethers.JsonRpcPayload | Array<ethers.JsonRpcPayload>): Promise<{ results: Array<ethers.JsonRpcResult>; endpoint: string }> {
+        let lastError: unknown;
+        for (const endpoint of getRpcEndpointOrder(this.endpoints, this.rpcOptions.strategy)) {
+            const start = Date.now();
+            try {
+                const results = await this.sendToEndpoint(endpoint.url, payload);
+                this.recordSuccess(endpoint, Date.now() - start);
+                return { results, endpoint: endpoint.url };
+            } catch (error) {
+                this.recordFailure(endpoint, error);
+                lastError = error;
+            }
+        }
+        throw new WttpRpcError(`All RPC endpoints failed: ${this.endpoints.map((endpoint) => endpoint.url).join(", ")} - ${lastError}`, { cause: lastError });
+    }
+
+    /**
+     * Sends a JSON-RPC payload to a single endpoint
+     *
+     * @param url - The endpoint URL
+     * @param payload - The JSON-RPC payload or batch
+     * @returns Promise resolving to the JSON-RPC results
+     * @throws Error on transport failures, timeouts and rate limits
+     */
+    private async sendToEndpoint(url: string, payload: ethers.JsonRpcPayload | Array<ethers.JsonRpcPayload>): Promise<Array<ethers.JsonRpcResult>> {
+        const request = new ethers.FetchRequest(url);
+        request.body = JSON.stringify(payload);
+        request.setHeader("content-type", "application/json");
+        request.timeout = this.rpcOptions.timeoutMs;
+        // Fail over immediately instead of waiting out the rate limit on this endpoint
+        request.setThrottleParams({ maxAttempts: 1 });
+
+        const response = await request.send();
+        response.assertOk();
+
+        const body: ethers.JsonRpcResult | ethers.JsonRpcError | Array<ethers.JsonRpcResult | ethers.JsonRpcError> = response.bodyJson;
+        const results = Array.isArray(body) ? body : [body];
+        for (const result of results) {
+            if ("error" in result && result.error && isRateLimitError(result.error)) {
+                throw new Error(`Rate limited by ${url}: ${result.error.message}`);
+            }
+        }
+        // JSON-RPC errors are returned in the results, ethers turns them into errors for the caller
+        return results as Array<ethers.JsonRpcResult>;
+    }
+
+    private recordSuccess(endpoint: WttpRpcEndpoint, latencyMs: number): void {
+        endpoint.score = endpoint.score * 0.8 + 0.2;
+        endpoint.latencyMs = endpoint.latencyMs === undefined ? latencyMs : Math.round(endpoint.latencyMs * 0.8 + latencyMs * 0.2);
+        endpoint.failures = 0;
+        endpoint.ejectedUntil = 0;
+        endpoint.lastError = undefined;
+    }
+
+    private recordFailure(endpoint: WttpRpcEndpoint, error: unknown): void {
+        endpoint.score = endpoint.score * 0.8;
+        endpoint.failures++;
+        endpoint.lastError = String(error);
+        if (endpoint.failures >= this.rpcOptions.maxFailures) {
+            endpoint.ejectedUntil = Date.now() + this.rpcOptions.ejectMs;
+        }
+    }
+}
+
+/**
+ * The contract runner of a single request on a pooled WttpRpcProvider
+ * Contract calls are sent through the pooled provider, and the endpoint that served them is recorded
+ * on the session, so concurrent requests do not overwrite each other's endpoint
+ */
+export class WttpRpcSession implements ethers.ContractRunner {
+    /**
+     * The pooled provider of the network
+     */
+    readonly provider: WttpRpcProvider;
+
+    /**
+     * The signer of the request, connected to the pooled provider
+     */
+    readonly signer?: ethers.Signer;
+
+    /**
+     * The URL of the endpoint that served the last call of the request
+     */
+    lastEndpoint?: string;
+
+    /**
+     * Sends transactions with the signer, only set when the session has one
+     */
+    sendTransaction?: (tx: ethers.TransactionRequest) => Promise<ethers.TransactionResponse>;
+
+    /**
+     * Creates a session for a single request
+     *
+     * @param provider - The pooled provider of the network
+     * @param signer - Optional signer for authenticated requests
+     */
+    constructor(provider: WttpRpcProvider, signer?: ethers.Signer) {
+        this.provider = provider;
+        this.signer = signer?.connect(provider);
+        if (this.signer) {
+            const sessionSigner = this.signer;
+            this.sendTransaction = (tx) => sessionSigner.sendTransaction(tx);
+        }
+    }
+
+    async call(tx: ethers.TransactionRequest): Promise<string> {
+        const request = this.signer ? await this.signer.populateCall(tx) : tx;
+        const { result, endpoint } = await this.provider.callWithEndpoint(request);
+        this.lastEndpoint = endpoint;
+        return result;
+    }
+
+    async estimateGas(tx: ethers.TransactionRequest): Promise<bigint> {
+        return (this.signer ?? this.provider).estimateGas(tx);
+    }
+
+    async resolveName(name: string): Promise<string | null> {
+        return (this.signer ?? this.provider).resolveName(name);
+    }
+}
+
+/**
+ * Gets the network a provider is pinned to
+ *
+ * @param chainId - The chain ID
+ * @param ensRegistry - Optional address of the ENS registry on the chain
+ * @returns The network known to ethers for the chain ID, or a copy using the given ENS registry
+ */
+function getStaticNetwork(chainId: number, ensRegistry?: string): ethers.Network {
+    const network = ethers.Network.from(chainId);
+    if (!ensRegistry) {
+        return network;
+    }
+    // Plugins cannot be replaced, so start from a network without the default ENS plugin
+    return new ethers.Network(network.name, chainId).attachPlugin(new ethers.EnsPlugin(ensRegistry, chainId));
+}
+
+/**
+ * Checks if a JSON-RPC error signals rate limiting rather than a failed call
+ *
+ * @param error - The JSON-RPC error object
+ * @returns True if the endpoint is rate limiting requests
+ */
+function isRateLimitError(error: { code: number; message?: string }): boolean {
+    return RATE_LIMIT_CODES.includes(error.code) || /rate.?limit|too many requests/i.test(error.message || "");
+}
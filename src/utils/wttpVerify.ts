@@ -0,0 +1,217 @@
+/**
+ * WTTP Verify Module
+ *
+ * This module checks a WTTP configuration against the chains it points at, so a
+ * misconfigured network is found at startup instead of serving wrong data or
+ * failing with a blank 500 later. For every RPC endpoint of every network it:
+ * - Calls `eth_chainId` and compares the result with the configured `chainId`
+ * - Confirms the configured `gateway` has contract code
+ * - Probes the gateway with a HEAD request for the probe host, or without a probe host,
+ *   confirms the gateway code dispatches the WTTP methods
+ *
+ * Each check is timed, and the results are collected in a per-endpoint report.
+ * Skipped checks carry a `reason` for scripts, next to the message for people.
+ */
+
+import { ethers } from "ethers";
+
+import {
+    WttpCheck,
+    WttpCheckSkipReason,
+    WttpConfig,
+    WttpConfigReport,
+    WttpEndpointReport,
+    WttpNetworkConfig,
+    WttpNetworkReport,
+    WttpVerifyOptions
+} from "../interfaces/WTTPTypes";
+import { validateWttpConfig, createNetworkAliases } from "./wttpConfig";
+import { connectWttpGateway, failHeadRequest, formatEthereumAddress } from "./wttpCore";
+import { DEFAULT_RPC_OPTIONS } from "./wttpRpc";
+import { WttpNetworkError } from "./wttpErrors";
+import { WTTPGatewayV3__factory } from "../interfaces/contracts/WTTPGatewayV3__factory";
+
+/**
+ * The gateway methods whose selectors the gateway code must dispatch
+ */
+const WTTP_GATEWAY_METHODS = ["HEAD", "GET", "OPTIONS", "LOCATE"] as const;
+
+/**
+ * The messages of skipped checks
+ */
+const SKIP_MESSAGES: Record<WttpCheckSkipReason, string> = {
+    "endpoint-unreachable": "endpoint unreachable",
+    "wrong-chain": "wrong chain",
+    "no-gateway-contract": "no gateway contract"
+};
+
+/**
+ * Checks every RPC endpoint of the configured networks
+ *
+ * @param config - The WTTP configuration
+ * @param options - Optional networks to check, probe host addresses and a timeout per call, networks given by name, alias or chain ID
+ * @returns Promise resolving to the report of every network and endpoint, `ok` only if every check passed
+ * @throws WttpConfigError if the configuration is invalid
+ * @throws WttpNetworkError if a network in `options.networks` is not configured
+ */
+export async function verifyWttpConfig(config: WttpConfig, options: WttpVerifyOptions = {}): Promise<WttpConfigReport> {
+    validateWttpConfig(config);
+    const aliases = createNetworkAliases(config);
+    const names = (options.networks ?? Object.keys(config.networks)).map((network) => {
+        const name = aliases.get(network.toLowerCase());
+        if (!name) {
+            throw new WttpNetworkError(`Unknown network: ${network} - not found in the WTTP config`, { network });
+        }
+        return name;
+    });
+
+    const hosts = Object.fromEntries(Object.entries(options.hosts ?? {}).map(([network, host]) => [aliases.get(network.toLowerCase()) ?? network, host]));
+
+    const networks = await Promise.all(names.map((name) => verifyNetwork(name, config.networks[name], { ...options, hosts })));
+    return { ok: networks.every((network) => network.ok), networks };
+}
+
+/**
+ * Formats a verification report as text, one line per check
+ *
+ * @param report - The report returned by verifyWttpConfig
+ * @returns The report text
+ */
+export function formatWttpConfigReport(report: WttpConfigReport): string {
+    const symbols = { pass: "✔", fail: "✘", skip: "-" };
+    const lines: string[] = [];
+    for (const network of report.networks) {
+        lines.push(`${network.ok ? "✔" : "✘"} ${network.network} (chain ${network.chainId}, gateway ${network.gateway})`);
+        for (const endpoint of network.endpoints) {
+            const latency = endpoint.latencyMs === undefined ? "" : ` ${endpoint.latencyMs}ms`;
+            lines.push(`  ${endpoint.ok ? "✔" : "✘"} ${endpoint.url}${latency}`);
+            for (const [name, check] of Object.entries(endpoint.checks)) {
+                const detail = [check.latencyMs === undefined ? undefined : `${check.latencyMs}ms`, check.message].filter(Boolean).join(" - ");
+                lines.push(`      ${symbols[check.status]} ${name}${detail ? `: ${detail}` : ""}`);
+            }
+        }
+    }
+    lines.push(report.ok ? "All checks passed" : "Some checks failed");
+    return lines.join("\n");
+}
+
+/**
+ * Checks every RPC endpoint of a network
+ *
+ * @param network - The network name
+ * @param networkConfig - The network configuration
+ * @param options - The probe hosts and timeout
+ * @returns Promise resolving to the report of the network
+ */
+async function verifyNetwork(network: string, networkConfig: WttpNetworkConfig, options: WttpVerifyOptions): Promise<WttpNetworkReport> {
+    const gateway = await ethers.resolveAddress(networkConfig.gateway);
+    const endpoints = await Promise.all(networkConfig.rpcList.map((url) => verifyEndpoint(url, networkConfig.chainId, gateway, options.hosts?.[network], options)));
+    return {
+        network,
+        chainId: networkConfig.chainId,
+        gateway,
+        ok: endpoints.every((endpoint) => endpoint.ok),
+        endpoints
+    };
+}
+
+/**
+ * Checks a single RPC endpoint
+ * The gateway checks are skipped when the endpoint is unreachable or serves another chain
+ * Without a probe host, the gateway code is checked for the selectors of the WTTP methods instead of sending a HEAD request
+ *
+ * @param url - The RPC endpoint URL
+ * @param chainId - The configured chain ID
+ * @param gateway - The gateway address
+ * @param host - The probe host address, if any
+ * @param options - The timeout
+ * @returns Promise resolving to the report of the endpoint
+ */
+async function verifyEndpoint(url: string, chainId: number, gateway: string, host: string | undefined, options: WttpVerifyOptions): Promise<WttpEndpointReport> {
+    const request = new ethers.FetchRequest(url);
+    request.timeout = options.timeoutMs ?? DEFAULT_RPC_OPTIONS.timeoutMs;
+    request.setThrottleParams({ maxAttempts: 1 });
+    const provider = new ethers.JsonRpcProvider(request, chainId, { staticNetwork: ethers.Network.from(chainId) });
+
+    const skipped = (reason: WttpCheckSkipReason): WttpCheck => ({ status: "skip", message: SKIP_MESSAGES[reason], reason });
+    let reported: number | undefined;
+    try {
+        const chainCheck = await timeCheck(async () => {
+            reported = Number(BigInt(await provider.send("eth_chainId", [])));
+            if (reported !== chainId) {
+                throw new Error(`endpoint serves chain ${reported}, expected ${chainId}`);
+            }
+        });
+        if (chainCheck.status === "fail") {
+            const reason = reported === undefined ? "endpoint-unreachable" : "wrong-chain";
+            return toEndpointReport(url, reported, { chainId: chainCheck, gatewayCode: skipped(reason), gatewayProbe: skipped(reason) });
+        }
+
+        let code = "0x";
+        const gatewayCode = await timeCheck(async () => {
+            code = await provider.getCode(gateway);
+            if (ethers.dataLength(code) === 0) {
+                throw new Error(`no contract at ${gateway}`);
+            }
+        });
+        const gatewayProbe = gatewayCode.status === "fail" ? skipped("no-gateway-contract")
+            : host ? await timeCheck(async () => {
+                await connectWttpGateway(gateway, provider).HEAD(formatEthereumAddress(host), failHeadRequest);
+            })
+            : await timeCheck(async () => {
+                const missing = getMissingGatewayMethods(code);
+                if (missing.length) {
+                    throw new Error(`gateway code does not dispatch ${missing.join(", ")}`);
+                }
+            });
+        return toEndpointReport(url, reported, { chainId: chainCheck, gatewayCode, gatewayProbe });
+    } finally {
+        provider.destroy();
+    }
+}
+
+/**
+ * Finds the WTTP methods a gateway cannot be called with
+ * Solidity dispatchers compare the call against each selector pushed with PUSH4
+ *
+ * @param code - The gateway bytecode
+ * @returns The names of the methods whose selectors are missing from the code
+ */
+function getMissingGatewayMethods(code: string): string[] {
+    const gatewayInterface = WTTPGatewayV3__factory.createInterface();
+    return WTTP_GATEWAY_METHODS.filter((name) => !code.toLowerCase().includes(`63${gatewayInterface.getFunction(name).selector.slice(2)}`));
+}
+
+/**
+ * Runs and times a check
+ *
+ * @param check - The check, throwing if it fails
+ * @returns The check result, with the error message of a failure
+ */
+async function timeCheck(check: () => Promise<void>): Promise<WttpCheck> {
+    const start = Date.now();
+    try {
+        await check();
+        return { status: "pass", latencyMs: Date.now() - start };
+    } catch (error) {
+        return { status: "fail", latencyMs: Date.now() - start, message: (error as Error)?.message ?? String(error) };
+    }
+}
+
+/**
+ * Builds the report of an endpoint from its checks
+ *
+ * @param url - The RPC endpoint URL
+ * @param chainId - The chain ID reported by the endpoint, if it answered
+ * @param checks - The check results
+ * @returns The endpoint report, `ok` if no check failed, with the `eth_chainId` round trip as its latency
+ */
+function toEndpointReport(url: string, chainId: number | undefined, checks: WttpEndpointReport["checks"]): WttpEndpointReport {
+    return {
+        url,
+        ok: Object.values(checks).every((check) => check.status !== "fail"),
+        chainId,
+        latencyMs: checks.chainId.status === "pass" ? checks.chainId.latencyMs : undefined,
+        checks
+    };
+}
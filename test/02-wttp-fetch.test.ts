@@ -0,0 +1,86 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { WttpClient } from "../src/utils/wttpClient.js";
+import { wttpFetch } from "../src/utils/wttpMethods.js";
+import { WTTPGatewayV3__factory } from "../src/interfaces/contracts/WTTPGatewayV3__factory.js";
+import { MockRpc, getMockCall, startMockRpc } from "./helpers/mockRpc.js";
+
+const gateway = "0x36C02dA8a0983159322a80FFE9F24b1acfF8B570";
+const site = "0x4c5859f0F772848b2D91F1D83E2Fe57935348029";
+const getSelector = WTTPGatewayV3__factory.createInterface().getFunction("GET").selector;
+
+describe("WTTP Fetch", () => {
+    let rpc: MockRpc;
+    let client: WttpClient;
+    let reverting = false;
+
+    before(async () => {
+        rpc = await startMockRpc({
+            chainId: 31337,
+            gateway,
+            site,
+            resources: { "/index.html": { data: ethers.hexlify(ethers.toUtf8Bytes("<h1>WTTP</h1>")) } },
+            intercept: (method, params) => reverting && getMockCall(method, params)?.data.startsWith(getSelector)
+                ? { error: { code: 3, message: "execution reverted" } }
+                : undefined
+        });
+        client = new WttpClient({
+            wttpConfig: { networks: { localhost: { rpcList: [rpc.url], chainId: 31337, gateway } } }
+        });
+    });
+
+    after(async () => {
+        client.destroy();
+        await rpc.close();
+    });
+
+    describe("wttpFetch:methods", () => {
+        it("should reject unsupported methods with 405", async () => {
+            const url = `wttp://${site}/index.html`;
+            const response = await wttpFetch(url, { method: "POST" });
+            expect(response.status).to.equal(405);
+            expect(response.headers.get("Allow")).to.equal("GET, HEAD");
+        });
+
+        it("should read the method from a Request object", async () => {
+            const request = new Request(`wttp://${site}/index.html`, { method: "DELETE" });
+            const response = await wttpFetch(request);
+            expect(response.status).to.equal(405);
+        });
+    });
+
+    describe("wttpFetch:responses", () => {
+        it("should return a standard Response for index.html", async () => {
+            const response = await client.fetch(`wttp://${site}/index.html`);
+            expect(response).to.be.instanceOf(Response);
+            expect(response.status).to.equal(200);
+            expect(await response.text()).to.equal("<h1>WTTP</h1>");
+            expect(response.headers.get("Content-Length")).to.equal("13");
+        });
+
+        it("should return an empty body for HEAD requests", async () => {
+            const response = await client.fetch(`wttp://${site}/index.html`, { method: "HEAD" });
+            expect(response.status).to.equal(200);
+            expect(response.body).to.equal(null);
+        });
+
+        it("should use the configuration of the client", async () => {
+            const response = await client.fetch(`wttp://${site}/missing.html`);
+            expect(response.status).to.equal(404);
+            expect(rpc.contractCalls).to.include("gateway.GET");
+        });
+
+        it("should send the length of a diagnosed error body", async () => {
+            reverting = true;
+            try {
+                const response = await client.fetch(`wttp://${site}/index.html`);
+                const body = new Uint8Array(await response.arrayBuffer());
+                expect(response.status).to.be.greaterThanOrEqual(400);
+                expect(body.length).to.be.greaterThan(0);
+                expect(response.headers.get("Content-Length")).to.equal(String(body.length));
+            } finally {
+                reverting = false;
+            }
+        });
+    });
+});
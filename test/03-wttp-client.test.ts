@@ -0,0 +1,101 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { WttpClient } from "../src/utils/wttpClient.js";
+import { WttpConfig } from "../src/interfaces/WTTPTypes.js";
+import { MockRpc, startMockRpc } from "./helpers/mockRpc.js";
+
+const gateway = "0x36C02dA8a0983159322a80FFE9F24b1acfF8B570";
+const site = "0x4c5859f0F772848b2D91F1D83E2Fe57935348029";
+
+describe("WTTP Client", () => {
+    let rpc: MockRpc;
+    let client: WttpClient;
+
+    before(async () => {
+        rpc = await startMockRpc({
+            chainId: 31337,
+            gateway,
+            site,
+            resources: {
+                "/index.html": { data: ethers.hexlify(ethers.toUtf8Bytes("<h1>Hello</h1>")) },
+                "/": { code: 300, redirect: { code: 300, location: "./index.html" } }
+            }
+        });
+        const wttpConfig: WttpConfig = {
+            networks: {
+                localhost: { rpcList: [rpc.url], chainId: 31337, gateway }
+            }
+        };
+        client = new WttpClient({ wttpConfig });
+    });
+
+    after(async () => {
+        client.destroy();
+        await rpc.close();
+    });
+
+    describe("WttpClient:parseUrl", () => {
+        it("should use the client configuration for the default network", async () => {
+            const result = await client.parseUrl(`wttp://${site.toLowerCase()}/index.html`);
+            expect(result.network).to.equal("localhost");
+            expect(result.gateway).to.equal(gateway);
+            expect(result.host).to.equal(site);
+        });
+
+        it("should keep configurations of separate clients apart", async () => {
+            const other = new WttpClient({
+                wttpConfig: { networks: { sepolia: { rpcList: [rpc.url], chainId: 11155111, gateway: site } } }
+            });
+            const result = await other.parseUrl(`wttp://${gateway}/index.html`);
+            expect(result.network).to.equal("sepolia");
+            expect(result.gateway).to.equal(site);
+        });
+    });
+
+    describe("WttpClient:head", () => {
+        it("should return the resource metadata", async () => {
+            const result = await client.head(`wttp://${site}/index.html`);
+            expect(result.responseLine.code).to.equal(200n);
+            expect(result.metadata.size).to.equal(14n);
+        });
+
+        it("should return the redirect of a directory", async () => {
+            const result = await client.head(`wttp://${site}/`);
+            expect(result.responseLine.code).to.equal(300n);
+            expect(result.headerInfo.redirect.location).to.equal("./index.html");
+        });
+    });
+
+    describe("WttpClient:get", () => {
+        it("should return the resource data", async () => {
+            const result = await client.get(`wttp://${site}/index.html`);
+            expect(result.head.responseLine.code).to.equal(200n);
+            expect(ethers.toUtf8String(result.data)).to.equal("<h1>Hello</h1>");
+        });
+
+        it("should reuse the provider and verified contracts on repeated requests", async () => {
+            const url = `wttp://${site}/index.html`;
+            await client.get(url);
+            const provider = client.getRpcProvider("localhost");
+            const calls = rpc.contractCalls.length;
+            await client.get(url);
+            expect(client.getRpcProvider("localhost")).to.equal(provider);
+            expect(rpc.contractCalls.slice(calls)).to.deep.equal(["gateway.GET"]);
+            expect(rpc.calls).to.not.include("eth_chainId");
+        });
+
+        it("should probe the contracts again when validation is disabled", async () => {
+            const uncached = new WttpClient({ wttpConfig: client.config, validationTtlMs: 0 });
+            const calls = rpc.contractCalls.length;
+            await uncached.get(`wttp://${site}/index.html`);
+            await uncached.get(`wttp://${site}/index.html`);
+            expect(rpc.contractCalls.slice(calls).filter((call) => call === "site.HEAD")).to.have.length(2);
+            uncached.destroy();
+        });
+
+        it("should return 404 for a missing resource", async () => {
+            const result = await client.get(`wttp://${site}/missing.html`);
+            expect(result.head.responseLine.code).to.equal(404n);
+        });
+    });
+});
@@ -0,0 +1,105 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { WttpClient } from "../src/utils/wttpClient.js";
+import { WttpRpcProvider, WttpRpcSession, getRpcEndpointOrder } from "../src/utils/wttpRpc.js";
+import { connectWttpGateway, failHeadRequest } from "../src/utils/wttpCore.js";
+import { WttpRpcEndpoint } from "../src/interfaces/WTTPTypes.js";
+import { MockRpc, startMockRpc } from "./helpers/mockRpc.js";
+
+const gateway = "0x36C02dA8a0983159322a80FFE9F24b1acfF8B570";
+const site = "0x4c5859f0F772848b2D91F1D83E2Fe57935348029";
+const resources = {
+    "/index.html": { data: ethers.hexlify(ethers.toUtf8Bytes("<h1>Hello</h1>")) }
+};
+
+describe("WTTP RPC Failover", () => {
+    let healthy: MockRpc;
+    let limited: MockRpc;
+
+    before(async () => {
+        healthy = await startMockRpc({ chainId: 31337, gateway, site, resources });
+        limited = await startMockRpc({ chainId: 31337, gateway, site, resources, intercept: () => ({ status: 429 }) });
+    });
+
+    after(async () => {
+        await healthy.close();
+        await limited.close();
+    });
+
+    function createClient(rpcList: string[], rpc?: ConstructorParameters<typeof WttpClient>[0]["rpc"]) {
+        return new WttpClient({
+            wttpConfig: { networks: { localhost: { rpcList, chainId: 31337, gateway } } },
+            rpc
+        });
+    }
+
+    describe("wttpRpc:failover", () => {
+        it("should fail over from an unreachable endpoint", async () => {
+            const client = createClient(["http://127.0.0.1:1", healthy.url]);
+            const result = await client.get(`wttp://${site}/index.html`);
+            expect(result.head.responseLine.code).to.equal(200n);
+            expect(result.rpc).to.equal(healthy.url);
+            expect(client.getRpcEndpoints("localhost")[0].failures).to.be.greaterThan(0);
+        });
+
+        it("should fail over from a rate limited endpoint", async () => {
+            const client = createClient([limited.url, healthy.url]);
+            const result = await client.head(`wttp://${site}/index.html`);
+            expect(result.responseLine.code).to.equal(200n);
+            expect(result.rpc).to.equal(healthy.url);
+            expect(client.getRpcEndpoints("localhost")[0].lastError).to.include("429");
+        });
+
+        it("should eject an endpoint after repeated failures", async () => {
+            const client = createClient([limited.url, healthy.url], { maxFailures: 1, ejectMs: 60000 });
+            await client.head(`wttp://${site}/index.html`);
+            const callsBefore = limited.calls.length;
+            await client.head(`wttp://${site}/index.html`);
+            expect(limited.calls.length).to.equal(callsBefore);
+        });
+
+        it("should report the endpoint of each session, while sharing the endpoint health", async () => {
+            const pool = new WttpRpcProvider({ rpcList: [healthy.url, limited.url], chainId: 31337 });
+            const first = new WttpRpcSession(pool);
+            const second = new WttpRpcSession(pool);
+            await connectWttpGateway(gateway, first).HEAD(site, failHeadRequest);
+            pool.endpoints[0].ejectedUntil = Date.now() + 60000;
+            await connectWttpGateway(gateway, second).HEAD(site, failHeadRequest).catch(() => undefined);
+            expect(first.lastEndpoint).to.equal(healthy.url);
+            expect(second.lastEndpoint).to.equal(undefined);
+            expect(pool.endpoints[1].failures).to.equal(1);
+            pool.destroy();
+        });
+
+        it("should reuse the provider of a network for every request", async () => {
+            const client = createClient([healthy.url]);
+            const wttpUrl = await client.parseUrl(`wttp://${site}/index.html`);
+            const [first, second] = await Promise.all([client.getProvider(wttpUrl), client.getProvider(wttpUrl)]);
+            expect(first.rpc!.provider).to.equal(client.getRpcProvider("localhost"));
+            expect(second.rpc!.provider).to.equal(first.rpc!.provider);
+            expect(second.rpc).to.not.equal(first.rpc);
+            client.destroy();
+        });
+    });
+
+    describe("wttpRpc:getRpcEndpointOrder", () => {
+        const endpoints: WttpRpcEndpoint[] = [
+            { url: "a", score: 0.2, failures: 2, ejectedUntil: 0 },
+            { url: "b", score: 0.9, latencyMs: 50, failures: 0, ejectedUntil: 0 },
+            { url: "c", score: 0.9, latencyMs: 20, failures: 0, ejectedUntil: Date.now() + 60000 }
+        ];
+
+        it("should keep the configured order and skip ejected endpoints", () => {
+            expect(getRpcEndpointOrder(endpoints, "ordered").map((e) => e.url)).to.deep.equal(["a", "b"]);
+        });
+
+        it("should order by health score", () => {
+            expect(getRpcEndpointOrder(endpoints, "health").map((e) => e.url)).to.deep.equal(["b", "a"]);
+        });
+
+        it("should try ejected endpoints when none are available", () => {
+            const ejected = endpoints.map((e) => ({ ...e, ejectedUntil: Date.now() + 60000 }));
+            expect(getRpcEndpointOrder(ejected, "ordered")).to.have.length(3);
+        });
+    });
+});
@@ -0,0 +1,102 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { WttpClient } from "../src/utils/wttpClient.js";
+import { formatEthereumAddress } from "../src/utils/wttpCore.js";
+import {
+    WttpBadGatewayError,
+    WttpError,
+    WttpHostNotImplementedError,
+    WttpNetworkError,
+    WttpRpcError,
+    WttpUrlError
+} from "../src/utils/wttpErrors.js";
+import { MockRpc, startMockRpc } from "./helpers/mockRpc.js";
+
+const gateway = "0x36C02dA8a0983159322a80FFE9F24b1acfF8B570";
+const site = "0x4c5859f0F772848b2D91F1D83E2Fe57935348029";
+const other = "0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045";
+
+describe("WTTP Errors", () => {
+    let rpc: MockRpc;
+
+    before(async () => {
+        rpc = await startMockRpc({
+            chainId: 31337,
+            gateway,
+            site,
+            resources: { "/index.html": { data: ethers.hexlify(ethers.toUtf8Bytes("hello")) } }
+        });
+    });
+
+    after(async () => {
+        await rpc.close();
+    });
+
+    function createClient(rpcList: string[], gatewayAddress = gateway) {
+        return new WttpClient({
+            wttpConfig: { networks: { localhost: { rpcList, chainId: 31337, gateway: gatewayAddress } } }
+        });
+    }
+
+    async function expectError(promise: Promise<unknown>): Promise<WttpError> {
+        try {
+            await promise;
+        } catch (error) {
+            expect(error).to.be.instanceOf(WttpError);
+            return error as WttpError;
+        }
+        expect.fail("Should have thrown an error");
+    }
+
+    describe("wttpErrors:url", () => {
+        it("should throw WttpUrlError for invalid addresses", () => {
+            try {
+                formatEthereumAddress("notanaddress");
+                expect.fail("Should have thrown an error");
+            } catch (error) {
+                expect(error).to.be.instanceOf(WttpUrlError);
+                expect((error as WttpUrlError).code).to.equal("INVALID_ADDRESS");
+                expect((error as WttpUrlError).status).to.equal(400);
+                expect((error as WttpUrlError).host).to.equal("notanaddress");
+                expect((error as WttpUrlError).cause).to.be.instanceOf(TypeError);
+            }
+        });
+
+        it("should throw WttpUrlError for non wttp URLs", async () => {
+            const error = await expectError(createClient([rpc.url]).parseUrl("http://example.com"));
+            expect(error).to.be.instanceOf(WttpUrlError);
+            expect(error.code).to.equal("INVALID_URL");
+            expect(error.url).to.equal("http://example.com/");
+        });
+
+        it("should throw WttpNetworkError for unknown networks", async () => {
+            const error = await expectError(createClient([rpc.url]).parseUrl(`wttp://${site}:999/index.html`));
+            expect(error).to.be.instanceOf(WttpNetworkError);
+            expect(error.code).to.equal("UNKNOWN_NETWORK");
+            expect(error.network).to.equal("999");
+        });
+    });
+
+    describe("wttpErrors:contracts", () => {
+        it("should throw WttpHostNotImplementedError for hosts without WTTP", async () => {
+            const error = await expectError(createClient([rpc.url]).get(`wttp://${other}/index.html`));
+            expect(error).to.be.instanceOf(WttpHostNotImplementedError);
+            expect(error.status).to.equal(501);
+            expect(error.host).to.equal(other);
+        });
+
+        it("should throw WttpBadGatewayError for gateways without WTTP", async () => {
+            const error = await expectError(createClient([rpc.url], other).head(`wttp://${site}/index.html`));
+            expect(error).to.be.instanceOf(WttpBadGatewayError);
+            expect(error.status).to.equal(502);
+            expect(error.gateway).to.equal(other);
+        });
+
+        it("should throw WttpRpcError when no RPC is reachable", async () => {
+            const error = await expectError(createClient(["http://127.0.0.1:1"]).get(`wttp://${site}/index.html`));
+            expect(error).to.be.instanceOf(WttpRpcError);
+            expect(error.code).to.equal("RPC_UNAVAILABLE");
+            expect(error.status).to.equal(503);
+        });
+    });
+});
@@ -0,0 +1,118 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { WttpClient } from "../src/utils/wttpClient.js";
+import { Web3Site__factory } from "../src/interfaces/contracts/Web3Site__factory.js";
+import { WTTPGatewayV3__factory } from "../src/interfaces/contracts/WTTPGatewayV3__factory.js";
+import { MockRpc, getMockCall, startMockRpc } from "./helpers/mockRpc.js";
+
+const gateway = "0x36C02dA8a0983159322a80FFE9F24b1acfF8B570";
+const site = "0x4c5859f0F772848b2D91F1D83E2Fe57935348029";
+const getSelector = WTTPGatewayV3__factory.createInterface().getFunction("GET").selector;
+const gatewayHeadSelector = WTTPGatewayV3__factory.createInterface().getFunction("HEAD").selector;
+const siteHeadSelector = Web3Site__factory.createInterface().getFunction("HEAD").selector;
+const revert = { error: { code: 3, message: "execution reverted" } };
+
+describe("WTTP Diagnostics", () => {
+    let rpc: MockRpc;
+    let client: WttpClient;
+    let failure: { status?: number; error?: { code: number; message: string; data?: string }; delay?: number } | undefined;
+    // The calls failing with a revert besides the GET call, e.g. the HEAD probes
+    let reverting: string[] = [];
+
+    before(async () => {
+        rpc = await startMockRpc({
+            chainId: 31337,
+            gateway,
+            site,
+            resources: { "/index.html": { data: ethers.hexlify(ethers.toUtf8Bytes("hello")) } },
+            // Fail only the GET call, so the probes still reach the contracts
+            intercept: (method, params) => {
+                const data = getMockCall(method, params)?.data;
+                if (data?.startsWith(getSelector)) return failure;
+                return reverting.some((selector) => data?.startsWith(selector)) ? revert : undefined;
+            }
+        });
+        client = new WttpClient({
+            wttpConfig: { networks: { localhost: { rpcList: [rpc.url], chainId: 31337, gateway } } },
+            rpc: { maxFailures: 100 }
+        });
+    });
+
+    beforeEach(async () => {
+        failure = undefined;
+        reverting = [];
+        // Verify the contracts, so the failures only hit the request and the diagnosis
+        await client.get(`wttp://${site}/index.html`);
+    });
+
+    after(async () => {
+        client.destroy();
+        await rpc.close();
+    });
+
+    describe("wttpDiagnostics:reverts", () => {
+        it("should decode custom errors and map Forbidden to 403", async () => {
+            const data = Web3Site__factory.createInterface().encodeErrorResult("Forbidden", [site, ethers.ZeroHash]);
+            failure = { error: { code: 3, message: "execution reverted", data } };
+            const result = await client.get(`wttp://${site}/index.html`);
+            expect(result.head.responseLine.code).to.equal(403n);
+            expect(result.diagnostics?.cause).to.equal("CONTRACT_REVERT");
+            expect(result.diagnostics?.revert?.name).to.equal("Forbidden");
+            expect(result.diagnostics?.revert?.args).to.deep.equal([site, ethers.ZeroHash]);
+        });
+
+        it("should report reverts without data as 500", async () => {
+            failure = { error: { code: 3, message: "execution reverted" } };
+            const result = await client.get(`wttp://${site}/index.html`);
+            expect(result.head.responseLine.code).to.equal(500n);
+            expect(result.diagnostics?.cause).to.equal("CONTRACT_REVERT");
+            expect(ethers.toUtf8String(result.data)).to.include("Request reverted");
+        });
+    });
+
+    describe("wttpDiagnostics:transport", () => {
+        it("should report unreachable RPCs as 503", async () => {
+            failure = { status: 503 };
+            const result = await client.get(`wttp://${site}/index.html`);
+            expect(result.head.responseLine.code).to.equal(503n);
+            expect(result.diagnostics?.cause).to.equal("RPC_UNAVAILABLE");
+            expect(result.diagnostics?.gateway).to.equal(gateway);
+            expect(result.diagnostics?.host).to.equal(site);
+        });
+
+        it("should report RPCs that do not answer in time as 504", async () => {
+            const slow = new WttpClient({
+                wttpConfig: { networks: { localhost: { rpcList: [rpc.url], chainId: 31337, gateway } } },
+                rpc: { timeoutMs: 300 },
+                retry: { maxAttempts: 1 }
+            });
+            try {
+                await slow.get(`wttp://${site}/index.html`);
+                failure = { delay: 1500 };
+                const result = await slow.get(`wttp://${site}/index.html`);
+                expect(result.head.responseLine.code).to.equal(504n);
+                expect(result.diagnostics?.cause).to.equal("TIMEOUT");
+            } finally {
+                slow.destroy();
+            }
+        }).timeout(5000);
+    });
+
+    describe("wttpDiagnostics:contracts", () => {
+        it("should report a gateway failing the probe as 502", async () => {
+            failure = revert;
+            reverting = [gatewayHeadSelector];
+            const result = await client.get(`wttp://${site}/index.html`);
+            expect(result.head.responseLine.code).to.equal(502n);
+            expect(result.diagnostics?.cause).to.equal("BAD_GATEWAY");
+        });
+
+        it("should report a host failing the probe as 501", async () => {
+            failure = revert;
+            reverting = [siteHeadSelector];
+            const result = await client.get(`wttp://${site}/index.html`);
+            expect(result.head.responseLine.code).to.equal(501n);
+            expect(result.diagnostics?.cause).to.equal("HOST_NOT_IMPLEMENTED");
+        });
+    });
+});
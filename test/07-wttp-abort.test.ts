@@ -0,0 +1,72 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { WttpClient } from "../src/utils/wttpClient.js";
+import { WttpAbortError, WttpTimeoutError } from "../src/utils/wttpErrors.js";
+import { WTTPGatewayV3__factory } from "../src/interfaces/contracts/WTTPGatewayV3__factory.js";
+import { MockRpc, getMockCall, startMockRpc } from "./helpers/mockRpc.js";
+
+const gateway = "0x36C02dA8a0983159322a80FFE9F24b1acfF8B570";
+const site = "0x4c5859f0F772848b2D91F1D83E2Fe57935348029";
+const getSelector = WTTPGatewayV3__factory.createInterface().getFunction("GET").selector;
+
+describe("WTTP Abort", () => {
+    let rpc: MockRpc;
+    let client: WttpClient;
+    let delay = 0;
+
+    before(async () => {
+        rpc = await startMockRpc({
+            chainId: 31337,
+            gateway,
+            site,
+            resources: { "/index.html": { data: ethers.hexlify(ethers.toUtf8Bytes("hello")) } },
+            // Stall only the GET call, so the contract probes still answer
+            intercept: (method, params) => getMockCall(method, params)?.data.startsWith(getSelector) && delay ? { delay } : undefined
+        });
+        client = new WttpClient({
+            wttpConfig: { networks: { localhost: { rpcList: [rpc.url], chainId: 31337, gateway } } }
+        });
+    });
+
+    beforeEach(() => {
+        delay = 0;
+    });
+
+    after(async () => {
+        client.destroy();
+        await rpc.close();
+    });
+
+    describe("wttpAbort:timeout", () => {
+        it("should reject with WttpTimeoutError when timeoutMs expires", async () => {
+            delay = 500;
+            const error = await client.get(`wttp://${site}/index.html`, { timeoutMs: 100 }).catch((error) => error);
+            expect(error).to.be.instanceOf(WttpTimeoutError);
+            expect(error.code).to.equal("TIMEOUT");
+        });
+
+        it("should complete requests within timeoutMs", async () => {
+            const response = await client.get(`wttp://${site}/index.html`, { timeoutMs: 2000 });
+            expect(response.head.responseLine.code).to.equal(200n);
+        });
+    });
+
+    describe("wttpAbort:signal", () => {
+        it("should reject with WttpAbortError when the signal aborts", async () => {
+            delay = 500;
+            const controller = new AbortController();
+            setTimeout(() => controller.abort(new Error("stop")), 50);
+            const error = await client.get(`wttp://${site}/index.html`, { signal: controller.signal }).catch((error) => error);
+            expect(error).to.be.instanceOf(WttpAbortError);
+            expect(error.code).to.equal("ABORTED");
+            expect(error.cause.message).to.equal("stop");
+        });
+
+        it("should reject immediately with an already aborted signal", async () => {
+            const controller = new AbortController();
+            controller.abort();
+            const error = await client.head(`wttp://${site}/index.html`, { signal: controller.signal }).catch((error) => error);
+            expect(error).to.be.instanceOf(WttpAbortError);
+        });
+    });
+});
@@ -0,0 +1,120 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { WttpClient } from "../src/utils/wttpClient.js";
+import { DEFAULT_RETRY_POLICY, getRetryDelay, isRetryableError, withRetry } from "../src/utils/wttpRetry.js";
+import { WttpAbortError, WttpRpcError, WttpUrlError } from "../src/utils/wttpErrors.js";
+import { WTTPGatewayV3__factory } from "../src/interfaces/contracts/WTTPGatewayV3__factory.js";
+import { MockRpc, getMockCall, startMockRpc } from "./helpers/mockRpc.js";
+
+const gateway = "0x36C02dA8a0983159322a80FFE9F24b1acfF8B570";
+const site = "0x4c5859f0F772848b2D91F1D83E2Fe57935348029";
+const getSelector = WTTPGatewayV3__factory.createInterface().getFunction("GET").selector;
+
+describe("WTTP Retry", () => {
+    let rpc: MockRpc;
+    let client: WttpClient;
+    let failures = 0;
+    let failure: { status?: number; error?: { code: number; message: string } } | undefined;
+
+    before(async () => {
+        rpc = await startMockRpc({
+            chainId: 31337,
+            gateway,
+            site,
+            resources: { "/index.html": { data: ethers.hexlify(ethers.toUtf8Bytes("hello")) } },
+            // Fail the next GET calls, so the contract probes still answer
+            intercept: (method, params) => {
+                if (getMockCall(method, params)?.data.startsWith(getSelector) && failures > 0) {
+                    failures--;
+                    return failure;
+                }
+                return undefined;
+            }
+        });
+        client = new WttpClient({
+            wttpConfig: { networks: { localhost: { rpcList: [rpc.url], chainId: 31337, gateway } } },
+            rpc: { maxFailures: 100 },
+            retry: { baseDelayMs: 1, maxDelayMs: 5 }
+        });
+    });
+
+    beforeEach(() => {
+        failures = 0;
+        failure = undefined;
+    });
+
+    after(async () => {
+        client.destroy();
+        await rpc.close();
+    });
+
+    describe("wttpRetry:client", () => {
+        it("should report a single attempt when the first call succeeds", async () => {
+            const result = await client.get(`wttp://${site}/index.html`);
+            expect(result.head.responseLine.code).to.equal(200n);
+            expect(result.attempts).to.equal(1);
+        });
+
+        it("should retry transient RPC failures", async () => {
+            failures = 2;
+            failure = { status: 502 };
+            const result = await client.get(`wttp://${site}/index.html`);
+            expect(result.head.responseLine.code).to.equal(200n);
+            expect(result.attempts).to.equal(3);
+        });
+
+        it("should give up after maxAttempts", async () => {
+            failures = 5;
+            failure = { status: 429 };
+            const result = await client.get(`wttp://${site}/index.html`, { retry: { maxAttempts: 2 } });
+            expect(result.head.responseLine.code).to.equal(503n);
+            expect(result.attempts).to.equal(2);
+        });
+
+        it("should not retry contract reverts", async () => {
+            failures = 5;
+            failure = { error: { code: 3, message: "execution reverted" } };
+            const result = await client.get(`wttp://${site}/index.html`);
+            expect(result.head.responseLine.code).to.equal(500n);
+            expect(result.attempts).to.equal(1);
+        });
+    });
+
+    describe("wttpRetry:withRetry", () => {
+        const policy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 1 };
+        const transient = () => Promise.reject(new WttpRpcError("All RPC endpoints failed"));
+
+        it("should not retry methods that are not idempotent", async () => {
+            let attempts = 0;
+            const error = await withRetry(3, () => { attempts++; return transient(); }, policy).catch((error) => error);
+            expect(error).to.be.instanceOf(WttpRpcError);
+            expect(attempts).to.equal(1);
+        });
+
+        it("should stop retrying when the signal aborts", async () => {
+            const controller = new AbortController();
+            controller.abort(new WttpAbortError("Request aborted"));
+            let attempts = 0;
+            const error = await withRetry(1, () => { attempts++; return transient(); }, { ...policy, baseDelayMs: 1000 }, controller.signal).catch((error) => error);
+            expect(error).to.be.instanceOf(WttpRpcError);
+            expect(attempts).to.equal(1);
+        });
+    });
+
+    describe("wttpRetry:classification", () => {
+        it("should classify transient errors as retryable", () => {
+            expect(isRetryableError(new WttpRpcError("All RPC endpoints failed"))).to.equal(true);
+            expect(isRetryableError(Object.assign(new Error("socket hang up"), { code: "ECONNRESET" }))).to.equal(true);
+        });
+
+        it("should classify other errors as final", () => {
+            expect(isRetryableError(new WttpUrlError("Invalid URL"))).to.equal(false);
+            expect(isRetryableError(new WttpAbortError("Request aborted"))).to.equal(false);
+        });
+
+        it("should back off exponentially up to maxDelayMs", () => {
+            const policy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 100, maxDelayMs: 300, jitter: 0 };
+            expect([1, 2, 3].map((attempt) => getRetryDelay(attempt, policy))).to.deep.equal([100, 200, 300]);
+        });
+    });
+});
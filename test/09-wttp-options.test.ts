@@ -0,0 +1,74 @@
+import { expect } from "chai";
+import { WttpClient } from "../src/utils/wttpClient.js";
+import { decodeWttpMethods, encodeWttpMethods } from "../src/utils/wttpCore.js";
+import { WTTPGatewayV3__factory } from "../src/interfaces/contracts/WTTPGatewayV3__factory.js";
+import { MockRpc, getMockCall, startMockRpc } from "./helpers/mockRpc.js";
+
+const gateway = "0x36C02dA8a0983159322a80FFE9F24b1acfF8B570";
+const site = "0x4c5859f0F772848b2D91F1D83E2Fe57935348029";
+const optionsSelector = WTTPGatewayV3__factory.createInterface().getFunction("OPTIONS").selector;
+
+describe("WTTP Options", () => {
+    let rpc: MockRpc;
+    let client: WttpClient;
+    let reverting = false;
+
+    before(async () => {
+        rpc = await startMockRpc({
+            chainId: 31337,
+            gateway,
+            site,
+            // HEAD, GET, OPTIONS and LOCATE
+            resources: { "/index.html": { methods: 0b11000011 } },
+            intercept: (method, params) => reverting && getMockCall(method, params)?.data.startsWith(optionsSelector)
+                ? { error: { code: 3, message: "execution reverted" } }
+                : undefined
+        });
+        client = new WttpClient({
+            wttpConfig: { networks: { localhost: { rpcList: [rpc.url], chainId: 31337, gateway } } }
+        });
+    });
+
+    after(async () => {
+        client.destroy();
+        await rpc.close();
+    });
+
+    describe("wttpOptions:client", () => {
+        it("should return the status and the allowed method names", async () => {
+            const result = await client.options(`wttp://${site}/index.html`);
+            expect(result.responseLine.code).to.equal(204n);
+            expect(result.allow).to.equal(0b11000011n);
+            expect(result.methods).to.deep.equal(["HEAD", "GET", "OPTIONS", "LOCATE"]);
+            expect(result.attempts).to.equal(1);
+        });
+
+        it("should return no methods for a missing resource", async () => {
+            const result = await client.options(`wttp://${site}/missing.html`);
+            expect(result.responseLine.code).to.equal(404n);
+            expect(result.methods).to.deep.equal([]);
+        });
+
+        it("should return a diagnosed status when the call fails", async () => {
+            reverting = true;
+            try {
+                const result = await client.options(`wttp://${site}/index.html`);
+                expect(result.diagnostics?.cause).to.equal("CONTRACT_REVERT");
+                expect(result.responseLine.code).to.equal(BigInt(result.diagnostics!.status));
+                expect(result.methods).to.deep.equal([]);
+            } finally {
+                reverting = false;
+            }
+        });
+    });
+
+    describe("wttpOptions:bitmask", () => {
+        it("should decode every method bit", () => {
+            expect(decodeWttpMethods(0x1ff)).to.deep.equal(["HEAD", "GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS", "LOCATE", "DEFINE"]);
+        });
+
+        it("should encode method names", () => {
+            expect(encodeWttpMethods(["GET", "PUT", "DEFINE"])).to.equal(0b100001010);
+        });
+    });
+});
@@ -0,0 +1,97 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { WttpClient } from "../src/utils/wttpClient.js";
+import { WttpStatusError } from "../src/utils/wttpErrors.js";
+import { WTTPGatewayV3__factory } from "../src/interfaces/contracts/WTTPGatewayV3__factory.js";
+import { MockRpc, getMockCall, startMockRpc } from "./helpers/mockRpc.js";
+
+const gateway = "0x36C02dA8a0983159322a80FFE9F24b1acfF8B570";
+const site = "0x4c5859f0F772848b2D91F1D83E2Fe57935348029";
+const locateSelector = WTTPGatewayV3__factory.createInterface().getFunction("LOCATE").selector;
+const dataPoints = Array.from({ length: 7 }, (_, i) => ethers.zeroPadValue(ethers.toBeHex(i + 1), 32));
+
+describe("WTTP Locate", () => {
+    let rpc: MockRpc;
+    let client: WttpClient;
+    let reverting = false;
+
+    before(async () => {
+        rpc = await startMockRpc({
+            chainId: 31337,
+            gateway,
+            site,
+            resources: { "/large.bin": { data: "0x1234", dataPoints } },
+            intercept: (method, params) => reverting && getMockCall(method, params)?.data.startsWith(locateSelector)
+                ? { error: { code: 3, message: "execution reverted" } }
+                : undefined
+        });
+        client = new WttpClient({
+            wttpConfig: { networks: { localhost: { rpcList: [rpc.url], chainId: 31337, gateway } } }
+        });
+    });
+
+    after(async () => {
+        client.destroy();
+        await rpc.close();
+    });
+
+    describe("wttpLocate:client", () => {
+        it("should return the head and every data point", async () => {
+            const result = await client.locate(`wttp://${site}/large.bin`);
+            expect(result.head.responseLine.code).to.equal(200n);
+            expect(result.dataPoints).to.deep.equal(dataPoints);
+        });
+
+        it("should return the data points of a chunk range", async () => {
+            const result = await client.locate(`wttp://${site}/large.bin`, { chunkRange: { start: 2, end: 4 } });
+            expect(result.dataPoints).to.deep.equal(dataPoints.slice(2, 4));
+        });
+
+        it("should return a diagnosed status when the call fails", async () => {
+            reverting = true;
+            try {
+                const result = await client.locate(`wttp://${site}/large.bin`);
+                expect(result.diagnostics?.cause).to.equal("CONTRACT_REVERT");
+                expect(result.head.responseLine.code).to.equal(BigInt(result.diagnostics!.status));
+                expect(result.dataPoints).to.deep.equal([]);
+            } finally {
+                reverting = false;
+            }
+        });
+    });
+
+    describe("wttpLocate:locateChunks", () => {
+        it("should page through all chunks", async () => {
+            const before = rpc.contractCalls.filter((call) => call === "gateway.LOCATE").length;
+            const chunks = [];
+            for await (const chunk of client.locateChunks(`wttp://${site}/large.bin`, { pageSize: 3 })) {
+                chunks.push(chunk);
+            }
+            expect(chunks.map((chunk) => chunk.dataPoint)).to.deep.equal(dataPoints);
+            expect(chunks.map((chunk) => chunk.index)).to.deep.equal([0, 1, 2, 3, 4, 5, 6]);
+            expect(rpc.contractCalls.filter((call) => call === "gateway.LOCATE").length - before).to.equal(3);
+        });
+
+        it("should stop at the end of the chunk range", async () => {
+            const chunks = [];
+            for await (const chunk of client.locateChunks(`wttp://${site}/large.bin`, { pageSize: 2, chunkRange: { start: 1, end: 4 } })) {
+                chunks.push(chunk.index);
+            }
+            expect(chunks).to.deep.equal([1, 2, 3]);
+        });
+
+        it("should throw the diagnosed status when a page fails", async () => {
+            reverting = true;
+            try {
+                for await (const chunk of client.locateChunks(`wttp://${site}/large.bin`)) {
+                    expect.fail(`Should not have yielded chunk ${chunk.index}`);
+                }
+                expect.fail("Should have thrown an error");
+            } catch (error) {
+                expect(error).to.be.instanceOf(WttpStatusError);
+            } finally {
+                reverting = false;
+            }
+        });
+    });
+});
@@ -0,0 +1,69 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { WttpClient } from "../src/utils/wttpClient.js";
+import { WttpStatusError } from "../src/utils/wttpErrors.js";
+import { MockRpc, startMockRpc } from "./helpers/mockRpc.js";
+
+const gateway = "0x36C02dA8a0983159322a80FFE9F24b1acfF8B570";
+const site = "0x4c5859f0F772848b2D91F1D83E2Fe57935348029";
+const content = Uint8Array.from({ length: 1000 }, (_, i) => i % 251);
+
+describe("WTTP Stream", () => {
+    let rpc: MockRpc;
+    let client: WttpClient;
+
+    before(async () => {
+        rpc = await startMockRpc({
+            chainId: 31337,
+            gateway,
+            site,
+            resources: {
+                "/large.bin": { data: ethers.hexlify(content) },
+                "/empty.bin": { data: "0x" }
+            }
+        });
+        client = new WttpClient({
+            wttpConfig: { networks: { localhost: { rpcList: [rpc.url], chainId: 31337, gateway } } }
+        });
+    });
+
+    after(async () => {
+        client.destroy();
+        await rpc.close();
+    });
+
+    describe("wttpStream:getChunks", () => {
+        it("should read the resource in ordered windows", async () => {
+            const before = rpc.contractCalls.filter((call) => call === "gateway.GET").length;
+            const chunks: Uint8Array[] = [];
+            for await (const chunk of client.getChunks(`wttp://${site}/large.bin`, { chunkSize: 300, concurrency: 2 })) {
+                chunks.push(chunk);
+            }
+            expect(chunks.map((chunk) => chunk.length)).to.deep.equal([300, 300, 300, 100]);
+            expect(ethers.concat(chunks)).to.equal(ethers.hexlify(content));
+            expect(rpc.contractCalls.filter((call) => call === "gateway.GET").length - before).to.equal(4);
+        });
+
+        it("should yield nothing for an empty resource", async () => {
+            const chunks: Uint8Array[] = [];
+            for await (const chunk of client.getChunks(`wttp://${site}/empty.bin`)) {
+                chunks.push(chunk);
+            }
+            expect(chunks).to.have.length(0);
+        });
+
+        it("should throw WttpStatusError for a missing resource", async () => {
+            const error = await client.getChunks(`wttp://${site}/missing.bin`).next().catch((error) => error);
+            expect(error).to.be.instanceOf(WttpStatusError);
+            expect(error.status).to.equal(404);
+        });
+    });
+
+    describe("wttpStream:getStream", () => {
+        it("should return a ReadableStream of the content", async () => {
+            const stream = client.getStream(`wttp://${site}/large.bin`, { chunkSize: 256 });
+            const body = new Uint8Array(await new Response(stream).arrayBuffer());
+            expect(ethers.hexlify(body)).to.equal(ethers.hexlify(content));
+        });
+    });
+});
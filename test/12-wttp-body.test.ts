@@ -0,0 +1,73 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { WttpClient } from "../src/utils/wttpClient.js";
+import { createWttpBody } from "../src/utils/wttpBody.js";
+import { decodeCharset, encodeCharset } from "../src/utils/wttpCodec.js";
+import { MockRpc, startMockRpc } from "./helpers/mockRpc.js";
+
+const gateway = "0x36C02dA8a0983159322a80FFE9F24b1acfF8B570";
+const site = "0x4c5859f0F772848b2D91F1D83E2Fe57935348029";
+const utf16 = Uint8Array.from([0x68, 0x00, 0xe9, 0x00]); // "hé" in UTF-16LE
+
+describe("WTTP Body", () => {
+    let rpc: MockRpc;
+    let client: WttpClient;
+
+    before(async () => {
+        rpc = await startMockRpc({
+            chainId: 31337,
+            gateway,
+            site,
+            resources: {
+                "/data.json": { data: ethers.hexlify(ethers.toUtf8Bytes('{"name":"wttp"}')) },
+                "/utf16.txt": { data: ethers.hexlify(utf16), metadata: { charset: encodeCharset("utf-16le") } }
+            }
+        });
+        client = new WttpClient({
+            wttpConfig: { networks: { localhost: { rpcList: [rpc.url], chainId: 31337, gateway } } }
+        });
+    });
+
+    after(async () => {
+        client.destroy();
+        await rpc.close();
+    });
+
+    describe("wttpBody:client", () => {
+        it("should return the body as bytes and parse JSON", async () => {
+            const result = await client.get(`wttp://${site}/data.json`);
+            expect(result.body).to.be.instanceOf(Uint8Array);
+            expect(result.bytes()).to.equal(result.body);
+            expect(result.json<{ name: string }>().name).to.equal("wttp");
+            expect(result.data).to.equal(ethers.hexlify(result.body));
+        });
+
+        it("should decode text with the resource charset", async () => {
+            const result = await client.get(`wttp://${site}/utf16.txt`);
+            expect(result.text()).to.equal("hé");
+        });
+    });
+
+    describe("wttpBody:createWttpBody", () => {
+        it("should share the buffer of binary data", () => {
+            const data = Uint8Array.from([1, 2, 3]);
+            expect(createWttpBody(data).body).to.equal(data);
+        });
+
+        it("should read plain text data", () => {
+            expect(createWttpBody("Not Found").text()).to.equal("Not Found");
+        });
+
+        it("should default to UTF-8 when no charset is set", () => {
+            expect(createWttpBody(ethers.toUtf8Bytes("héllo"), "0x0000").text()).to.equal("héllo");
+        });
+    });
+
+    describe("wttpBody:charset", () => {
+        it("should encode and decode charset codes", () => {
+            expect(encodeCharset("UTF-8")).to.equal("0x7538");
+            expect(decodeCharset("0x7538")).to.equal("utf-8");
+            expect(decodeCharset("0x0000")).to.equal(undefined);
+        });
+    });
+});
@@ -0,0 +1,92 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { WttpClient } from "../src/utils/wttpClient.js";
+import {
+    decodeEncoding,
+    decodeLanguage,
+    decodeMimeType,
+    decodeWttpMetadata,
+    encodeEncoding,
+    encodeLanguage,
+    encodeMimeType,
+    encodeWttpMetadata
+} from "../src/utils/wttpCodec.js";
+import { MockRpc, startMockRpc } from "./helpers/mockRpc.js";
+
+const gateway = "0x36C02dA8a0983159322a80FFE9F24b1acfF8B570";
+const site = "0x4c5859f0F772848b2D91F1D83E2Fe57935348029";
+
+describe("WTTP Codec", () => {
+    describe("wttpCodec:fields", () => {
+        it("should encode and decode MIME types", () => {
+            expect(encodeMimeType("text/html")).to.equal("0x7468");
+            expect(encodeMimeType("Application/JSON; charset=utf-8")).to.equal(ethers.hexlify(ethers.toUtf8Bytes("aj")));
+            expect(decodeMimeType("0x7468")).to.equal("text/html");
+        });
+
+        it("should encode and decode content encodings", () => {
+            expect(decodeEncoding(encodeEncoding("gzip"))).to.equal("gzip");
+        });
+
+        it("should store the primary language subtag", () => {
+            expect(encodeLanguage("en-US")).to.equal("0x656e");
+            expect(decodeLanguage("0x656e")).to.equal("en");
+        });
+
+        it("should treat unset and unknown codes as undefined", () => {
+            expect(decodeMimeType("0x0000")).to.equal(undefined);
+            expect(decodeMimeType("")).to.equal(undefined);
+            expect(decodeMimeType("0x7a7a")).to.equal(undefined);
+            expect(encodeMimeType("application/x-unknown")).to.equal("0x0000");
+        });
+    });
+
+    describe("wttpCodec:metadata", () => {
+        it("should round trip content information", () => {
+            const encoded = encodeWttpMetadata({ contentType: "text/html; charset=utf-8", encoding: "br", language: "fr-CA" });
+            expect(encoded).to.deep.equal({ mimeType: "0x7468", charset: "0x7538", encoding: "0x6272", language: "0x6672" });
+            expect(decodeWttpMetadata(encoded)).to.deep.equal({
+                mimeType: "text/html",
+                charset: "utf-8",
+                encoding: "br",
+                language: "fr",
+                contentType: "text/html; charset=utf-8"
+            });
+        });
+    });
+
+    describe("wttpCodec:responses", () => {
+        let rpc: MockRpc;
+        let client: WttpClient;
+
+        before(async () => {
+            rpc = await startMockRpc({
+                chainId: 31337,
+                gateway,
+                site,
+                resources: {
+                    "/index.html": {
+                        data: ethers.hexlify(ethers.toUtf8Bytes("<h1>Hello</h1>")),
+                        metadata: encodeWttpMetadata({ mimeType: "text/html", charset: "utf-8", language: "en" })
+                    }
+                }
+            });
+            client = new WttpClient({
+                wttpConfig: { networks: { localhost: { rpcList: [rpc.url], chainId: 31337, gateway } } }
+            });
+        });
+
+        after(async () => {
+            client.destroy();
+            await rpc.close();
+        });
+
+        it("should decode the metadata of HEAD and GET responses", async () => {
+            const head = await client.head(`wttp://${site}/index.html`);
+            expect(head.content?.contentType).to.equal("text/html; charset=utf-8");
+            expect(head.content?.language).to.equal("en");
+            const get = await client.get(`wttp://${site}/index.html`);
+            expect(get.content?.mimeType).to.equal("text/html");
+        });
+    });
+});
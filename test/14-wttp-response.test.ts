@@ -0,0 +1,80 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { WttpClient } from "../src/utils/wttpClient.js";
+import { WttpResponse, WTTP_RESPONSE_SCHEMA } from "../src/utils/wttpResponse.js";
+import { encodeWttpMetadata } from "../src/utils/wttpCodec.js";
+import { MockRpc, startMockRpc } from "./helpers/mockRpc.js";
+
+const gateway = "0x36C02dA8a0983159322a80FFE9F24b1acfF8B570";
+const site = "0x4c5859f0F772848b2D91F1D83E2Fe57935348029";
+
+describe("WTTP Response", () => {
+    let rpc: MockRpc;
+    let client: WttpClient;
+
+    before(async () => {
+        rpc = await startMockRpc({
+            chainId: 31337,
+            gateway,
+            site,
+            resources: {
+                "/index.html": {
+                    data: ethers.hexlify(ethers.toUtf8Bytes("<h1>Hello</h1>")),
+                    methods: 0b11,
+                    cache: { maxAge: 3600, publicFlag: true },
+                    metadata: { ...encodeWttpMetadata({ contentType: "text/html; charset=utf-8" }), lastModified: 1700000000 }
+                }
+            }
+        });
+        client = new WttpClient({
+            wttpConfig: { networks: { localhost: { rpcList: [rpc.url], chainId: 31337, gateway } } }
+        });
+    });
+
+    after(async () => {
+        client.destroy();
+        await rpc.close();
+    });
+
+    describe("wttpResponse:from", () => {
+        it("should convert a GET response into plain values", async () => {
+            const response = WttpResponse.from(await client.get(`wttp://${site}/index.html`));
+            expect(response.status).to.equal(200);
+            expect(response.headers.methods).to.deep.equal(["HEAD", "GET"]);
+            expect(response.cache.maxAge).to.equal(3600);
+            expect(response.metadata.size).to.equal(14);
+            expect(response.metadata.lastModified?.toISOString()).to.equal("2023-11-14T22:13:20.000Z");
+            expect(response.content.contentType).to.equal("text/html; charset=utf-8");
+            expect(response.range).to.deep.equal({ start: 0, end: 14 });
+            expect(response.text()).to.equal("<h1>Hello</h1>");
+        });
+
+        it("should convert a HEAD response without a body", async () => {
+            const response = WttpResponse.from(await client.head(`wttp://${site}/index.html`));
+            expect(response.body).to.equal(undefined);
+            expect(response.bytes()).to.have.length(0);
+        });
+
+        it("should survive structured cloning", async () => {
+            const response = WttpResponse.from(await client.get(`wttp://${site}/index.html`));
+            const cloned = new WttpResponse(structuredClone(response));
+            expect(cloned.text()).to.equal("<h1>Hello</h1>");
+        });
+    });
+
+    describe("wttpResponse:json", () => {
+        it("should round trip through JSON", async () => {
+            const response = WttpResponse.from(await client.get(`wttp://${site}/index.html`));
+            const json = JSON.parse(JSON.stringify(response));
+            expect(json.schema).to.equal(WTTP_RESPONSE_SCHEMA);
+            expect(json.metadata.lastModified).to.equal("2023-11-14T22:13:20.000Z");
+            const restored = WttpResponse.fromJSON(json);
+            expect(restored).to.deep.equal(response);
+            expect(restored.toHead()).to.deep.equal(response.toHead());
+        });
+
+        it("should reject unknown schemas", () => {
+            expect(() => WttpResponse.fromJSON({ schema: 99 } as any)).to.throw(TypeError);
+        });
+    });
+});
@@ -0,0 +1,81 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { HEADResponseStruct } from "../src/interfaces/contracts/WTTPGatewayV3.js";
+import { encodeWttpMetadata } from "../src/utils/wttpCodec.js";
+import { fromHttpHeaders, toHttpHeaders } from "../src/utils/wttpHeaders.js";
+
+const etag = ethers.keccak256(ethers.toUtf8Bytes("hello"));
+
+function createHead(): HEADResponseStruct {
+    return {
+        responseLine: { protocol: "WTTP/3.0", code: 301n },
+        headerInfo: {
+            methods: 0b11000011n,
+            cache: { maxAge: 3600n, noStore: false, noCache: true, immutableFlag: true, publicFlag: true },
+            redirect: { code: 301n, location: "/new/" },
+            resourceAdmin: ethers.ZeroHash
+        },
+        metadata: {
+            ...encodeWttpMetadata({ contentType: "text/html; charset=utf-8", encoding: "gzip", language: "en" }),
+            size: 1000n,
+            version: 0n,
+            lastModified: 1700000000n,
+            header: ethers.ZeroHash
+        },
+        etag
+    };
+}
+
+describe("WTTP Headers", () => {
+    describe("wttpHeaders:toHttpHeaders", () => {
+        it("should map the head to HTTP headers", () => {
+            const headers = toHttpHeaders(createHead());
+            expect(headers.get("Cache-Control")).to.equal("public, no-cache, max-age=3600, immutable");
+            expect(headers.get("ETag")).to.equal(`"${etag}"`);
+            expect(headers.get("Last-Modified")).to.equal("Tue, 14 Nov 2023 22:13:20 GMT");
+            expect(headers.get("Content-Length")).to.equal("1000");
+            expect(headers.get("Content-Range")).to.equal(null);
+            expect(headers.get("Location")).to.equal("/new/");
+            expect(headers.get("Allow")).to.equal("HEAD, GET, OPTIONS, LOCATE");
+            expect(headers.get("Content-Type")).to.equal("text/html; charset=utf-8");
+            expect(headers.get("Content-Encoding")).to.equal("gzip");
+            expect(headers.get("Content-Language")).to.equal("en");
+        });
+
+        it("should map a partial byte range to Content-Range", () => {
+            const headers = toHttpHeaders(createHead(), { start: 100n, end: 200n });
+            expect(headers.get("Content-Length")).to.equal("100");
+            expect(headers.get("Content-Range")).to.equal("bytes 100-199/1000");
+        });
+
+        it("should leave out empty fields", () => {
+            const head = createHead();
+            head.etag = ethers.ZeroHash;
+            head.headerInfo.redirect = { code: 0n, location: "" };
+            head.headerInfo.cache = { maxAge: 0n, noStore: false, noCache: false, immutableFlag: false, publicFlag: false };
+            const headers = toHttpHeaders(head);
+            expect(headers.has("ETag")).to.equal(false);
+            expect(headers.has("Location")).to.equal(false);
+            expect(headers.has("Cache-Control")).to.equal(false);
+        });
+    });
+
+    describe("wttpHeaders:fromHttpHeaders", () => {
+        it("should map HTTP headers back to the head", () => {
+            const head = createHead();
+            const result = fromHttpHeaders(toHttpHeaders(head, { start: 100n, end: 200n }), 301);
+            expect(result.bytesRange).to.deep.equal({ start: 100n, end: 200n });
+            expect(result.head.headerInfo).to.deep.equal(head.headerInfo);
+            expect(result.head.metadata).to.deep.equal(head.metadata);
+            expect(result.head.etag).to.equal(etag);
+        });
+
+        it("should ignore unknown methods and invalid values", () => {
+            const result = fromHttpHeaders({ "Allow": "GET, TRACE", "ETag": "\"abc\"", "Content-Length": "abc" });
+            expect(result.head.headerInfo.methods).to.equal(2n);
+            expect(result.head.etag).to.equal(ethers.ZeroHash);
+            expect(result.head.metadata.size).to.equal(0n);
+            expect(result.bytesRange).to.equal(undefined);
+        });
+    });
+});
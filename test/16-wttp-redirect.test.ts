@@ -0,0 +1,89 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { WttpClient } from "../src/utils/wttpClient.js";
+import { WttpRedirectError } from "../src/utils/wttpErrors.js";
+import { MockRpc, startMockRpc } from "./helpers/mockRpc.js";
+
+const gateway = "0x36C02dA8a0983159322a80FFE9F24b1acfF8B570";
+const site = "0x4c5859f0F772848b2D91F1D83E2Fe57935348029";
+
+describe("WTTP Redirect", () => {
+    let rpc: MockRpc;
+    let client: WttpClient;
+
+    before(async () => {
+        rpc = await startMockRpc({
+            chainId: 31337,
+            gateway,
+            site,
+            resources: {
+                "/docs/": { code: 300, redirect: { code: 300, location: "./index.html" } },
+                "/docs/index.html": { data: ethers.hexlify(ethers.toUtf8Bytes("docs")) },
+                "/old": { code: 301, redirect: { code: 301, location: `wttp://${site}:31337/docs/` } },
+                "/a": { code: 307, redirect: { code: 307, location: "/b" } },
+                "/b": { code: 308, redirect: { code: 308, location: "/a" } },
+                "/external": { code: 302, redirect: { code: 302, location: "https://example.com/" } }
+            }
+        });
+        client = new WttpClient({
+            wttpConfig: { networks: { localhost: { rpcList: [rpc.url], chainId: 31337, gateway } } }
+        });
+    });
+
+    after(async () => {
+        client.destroy();
+        await rpc.close();
+    });
+
+    describe("wttpRedirect:manual", () => {
+        it("should return the redirect response by default", async () => {
+            const result = await client.head(`wttp://${site}/docs/`);
+            expect(result.responseLine.code).to.equal(300n);
+            expect(result.redirects).to.deep.equal([]);
+        });
+    });
+
+    describe("wttpRedirect:follow", () => {
+        it("should follow relative locations", async () => {
+            const result = await client.get(`wttp://${site}/docs/`, { redirect: "follow" });
+            expect(result.head.responseLine.code).to.equal(200n);
+            expect(result.text()).to.equal("docs");
+            expect(result.url).to.equal(`wttp://${site}/docs/index.html`);
+            expect(result.redirects).to.deep.equal([
+                { url: `wttp://${site}/docs/`, status: 300, location: `wttp://${site}/docs/index.html` }
+            ]);
+        });
+
+        it("should follow absolute wttp locations across a chain", async () => {
+            const result = await client.head(`wttp://${site}/old`, { redirect: "follow" });
+            expect(result.responseLine.code).to.equal(200n);
+            expect(result.redirects?.map((hop) => hop.status)).to.deep.equal([301, 300]);
+            expect(result.url).to.equal(`wttp://${site}:31337/docs/index.html`);
+        });
+
+        it("should detect redirect loops", async () => {
+            const error = await client.get(`wttp://${site}/a`, { redirect: "follow" }).catch((error) => error);
+            expect(error).to.be.instanceOf(WttpRedirectError);
+            expect(error.code).to.equal("REDIRECT_LOOP");
+        });
+
+        it("should stop after maxRedirects", async () => {
+            const error = await client.get(`wttp://${site}/old`, { redirect: "follow", maxRedirects: 1 }).catch((error) => error);
+            expect(error).to.be.instanceOf(WttpRedirectError);
+            expect(error.code).to.equal("TOO_MANY_REDIRECTS");
+        });
+
+        it("should return redirects outside WTTP without following them", async () => {
+            const result = await client.head(`wttp://${site}/external`, { redirect: "follow" });
+            expect(result.responseLine.code).to.equal(302n);
+        });
+    });
+
+    describe("wttpRedirect:error", () => {
+        it("should reject redirects", async () => {
+            const error = await client.head(`wttp://${site}/old`, { redirect: "error" }).catch((error) => error);
+            expect(error).to.be.instanceOf(WttpRedirectError);
+            expect(error.status).to.equal(301);
+        });
+    });
+});
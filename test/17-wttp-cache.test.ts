@@ -0,0 +1,232 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { WttpClient } from "../src/utils/wttpClient.js";
+import { WttpFileCacheStore, WttpMemoryCacheStore, isCacheable, isFresh } from "../src/utils/wttpCache.js";
+import { WttpResponse } from "../src/utils/wttpResponse.js";
+import { MockResource, MockRpc, startMockRpc } from "./helpers/mockRpc.js";
+
+const gateway = "0x36C02dA8a0983159322a80FFE9F24b1acfF8B570";
+const site = "0x4c5859f0F772848b2D91F1D83E2Fe57935348029";
+
+const text = (value: string) => ethers.hexlify(ethers.toUtf8Bytes(value));
+
+describe("WTTP Cache", () => {
+    let rpc: MockRpc;
+    let resources: Record<string, MockResource>;
+    let store: WttpMemoryCacheStore;
+    let client: WttpClient;
+
+    const gets = () => rpc.contractCalls.filter((call) => call === "gateway.GET").length;
+
+    before(async () => {
+        resources = {
+            "/fresh": { data: text("fresh"), cache: { maxAge: 3600 } },
+            "/immutable": { data: text("immutable"), cache: { immutableFlag: true } },
+            "/no-store": { data: text("no-store"), cache: { maxAge: 3600, noStore: true } },
+            "/no-cache": { data: text("no-cache"), cache: { maxAge: 3600, noCache: true } },
+            "/expired": { data: text("expired") },
+            "/public": { data: text("public"), cache: { maxAge: 3600, publicFlag: true } }
+        };
+        rpc = await startMockRpc({ chainId: 31337, gateway, site, resources });
+    });
+
+    beforeEach(() => {
+        store = new WttpMemoryCacheStore();
+        client = new WttpClient({
+            wttpConfig: { networks: { localhost: { rpcList: [rpc.url], chainId: 31337, gateway } } },
+            cache: { store }
+        });
+    });
+
+    afterEach(() => {
+        client.destroy();
+    });
+
+    after(async () => {
+        await rpc.close();
+    });
+
+    describe("wttpCache:freshness", () => {
+        it("should serve fresh responses without calling the gateway", async () => {
+            const first = await client.get(`wttp://${site}/fresh`);
+            const calls = gets();
+            const second = await client.get(`wttp://${site}/fresh`);
+            expect(first.cacheStatus).to.equal("MISS");
+            expect(second.cacheStatus).to.equal("HIT");
+            expect(second.text()).to.equal("fresh");
+            expect(second.head.headerInfo.cache.maxAge).to.equal(3600n);
+            expect(gets()).to.equal(calls);
+        });
+
+        it("should key GET requests by their byte range", async () => {
+            await client.get(`wttp://${site}/fresh`);
+            const partial = await client.get(`wttp://${site}/fresh`, { range: { start: 0, end: 2 } });
+            expect(partial.cacheStatus).to.equal("MISS");
+            expect(partial.text()).to.equal("fr");
+            expect(Number(partial.bytesRange.end)).to.equal(2);
+        });
+
+        it("should cache HEAD responses under the network of the URL", async () => {
+            expect((await client.head(`wttp://${site}/immutable`)).cacheStatus).to.equal("MISS");
+            const cached = await client.head(`wttp://${site}:31337/immutable`);
+            expect(cached.cacheStatus).to.equal("HIT");
+            expect(cached.metadata.size).to.equal(9n);
+        });
+
+        it("should not share the cached body with callers", async () => {
+            const first = await client.get(`wttp://${site}/immutable`);
+            first.body.fill(0);
+            expect((await client.get(`wttp://${site}/immutable`)).text()).to.equal("immutable");
+        });
+    });
+
+    describe("wttpCache:directives", () => {
+        it("should never store noStore responses", async () => {
+            await client.get(`wttp://${site}/no-store`);
+            expect(store.size).to.equal(0);
+            expect((await client.get(`wttp://${site}/no-store`)).cacheStatus).to.equal("MISS");
+        });
+
+        it("should revalidate noCache responses on every request", async () => {
+            await client.get(`wttp://${site}/no-cache`);
+            const calls = gets();
+            const second = await client.get(`wttp://${site}/no-cache`);
+            expect(second.cacheStatus).to.equal("REVALIDATED");
+            expect(gets()).to.equal(calls + 1);
+        });
+
+        it("should report a miss when the resource changed", async () => {
+            await client.get(`wttp://${site}/expired`);
+            resources["/expired"].data = text("updated");
+            const second = await client.get(`wttp://${site}/expired`);
+            expect(second.cacheStatus).to.equal("MISS");
+            expect(second.text()).to.equal("updated");
+        });
+
+        it("should only keep publicFlag responses in shared stores", async () => {
+            const shared = new WttpClient({
+                wttpConfig: { networks: { localhost: { rpcList: [rpc.url], chainId: 31337, gateway } } },
+                cache: { store, shared: true }
+            });
+            try {
+                await shared.get(`wttp://${site}/fresh`);
+                await shared.get(`wttp://${site}/public`);
+                expect(store.size).to.equal(1);
+                expect((await shared.get(`wttp://${site}/public`)).cacheStatus).to.equal("HIT");
+            } finally {
+                shared.destroy();
+            }
+        });
+    });
+
+    describe("wttpCache:modes", () => {
+        it("should bypass the cache with no-store and reload", async () => {
+            await client.get(`wttp://${site}/fresh`);
+            const calls = gets();
+            expect((await client.get(`wttp://${site}/fresh`, { cache: "no-store" })).cacheStatus).to.equal("MISS");
+            expect((await client.get(`wttp://${site}/fresh`, { cache: "reload" })).cacheStatus).to.equal("MISS");
+            expect(gets()).to.equal(calls + 2);
+        });
+
+        it("should serve stale responses with force-cache", async () => {
+            await client.get(`wttp://${site}/expired`);
+            const stale = await client.get(`wttp://${site}/expired`, { cache: "force-cache" });
+            expect(stale.cacheStatus).to.equal("STALE");
+        });
+
+        it("should not report a cache status without a cache", async () => {
+            const uncached = new WttpClient({
+                wttpConfig: { networks: { localhost: { rpcList: [rpc.url], chainId: 31337, gateway } } }
+            });
+            try {
+                expect((await uncached.get(`wttp://${site}/fresh`)).cacheStatus).to.equal(undefined);
+            } finally {
+                uncached.destroy();
+            }
+        });
+    });
+
+    describe("wttpCache:rules", () => {
+        const response = (cache: Partial<WttpResponse["cache"]>, etag = ethers.ZeroHash) => new WttpResponse({
+            protocol: "WTTP/3.0",
+            status: 200,
+            headers: { methods: [], resourceAdmin: ethers.ZeroHash },
+            cache: { maxAge: 0, noStore: false, noCache: false, immutableFlag: false, publicFlag: false, ...cache },
+            redirect: { code: 0, location: "" },
+            metadata: { mimeType: "0x0000", charset: "0x0000", encoding: "0x0000", language: "0x0000", size: 0, version: 1, header: ethers.ZeroHash },
+            etag
+        });
+
+        it("should expire entries after maxAge seconds", () => {
+            const entry = { response: response({ maxAge: 60 }), storedAt: 0 };
+            expect(isFresh(entry, 59_999)).to.equal(true);
+            expect(isFresh(entry, 60_000)).to.equal(false);
+            expect(isFresh({ ...entry, response: response({ immutableFlag: true }) }, 1e12)).to.equal(true);
+        });
+
+        it("should skip responses that can neither be fresh nor revalidated", () => {
+            expect(isCacheable(response({}))).to.equal(false);
+            expect(isCacheable(response({}, ethers.id("etag")))).to.equal(true);
+        });
+    });
+
+    describe("wttpCache:stores", () => {
+        const entry = (body: string) => ({
+            response: new WttpResponse({
+                protocol: "WTTP/3.0",
+                status: 200,
+                headers: { methods: ["GET"], resourceAdmin: ethers.ZeroHash },
+                cache: { maxAge: 60, noStore: false, noCache: false, immutableFlag: false, publicFlag: true },
+                redirect: { code: 0, location: "" },
+                metadata: { mimeType: "0x7468", charset: "0x7538", encoding: "0x0000", language: "0x0000", size: body.length, version: 1, lastModified: new Date(1700000000000), header: ethers.ZeroHash },
+                etag: ethers.id(body),
+                range: { start: 0, end: body.length },
+                body: ethers.toUtf8Bytes(body)
+            }),
+            storedAt: 1700000000000
+        });
+
+        it("should evict the least recently used entries", async () => {
+            const lru = new WttpMemoryCacheStore({ maxEntries: 2 });
+            await lru.set("a", entry("a"));
+            await lru.set("b", entry("b"));
+            await lru.get("a");
+            await lru.set("c", entry("c"));
+            expect(await lru.get("b")).to.equal(undefined);
+            expect(await lru.get("a")).to.not.equal(undefined);
+            expect(lru.size).to.equal(2);
+        });
+
+        it("should evict entries over the byte limit", async () => {
+            const lru = new WttpMemoryCacheStore({ maxBytes: 5 });
+            await lru.set("a", entry("abc"));
+            await lru.set("b", entry("de"));
+            await lru.set("c", entry("f"));
+            expect(await lru.get("a")).to.equal(undefined);
+            await lru.set("d", entry("too large"));
+            expect(await lru.get("d")).to.equal(undefined);
+        });
+
+        it("should persist entries to the filesystem", async () => {
+            const directory = await fs.mkdtemp(path.join(os.tmpdir(), "wttp-cache-"));
+            try {
+                const files = new WttpFileCacheStore(directory);
+                await files.set("GET wttp://site/", entry("persisted"));
+                const restored = await new WttpFileCacheStore(directory).get("GET wttp://site/");
+                expect(restored?.storedAt).to.equal(1700000000000);
+                expect(new WttpResponse(restored!.response).text()).to.equal("persisted");
+                expect(restored?.response.metadata.lastModified?.getTime()).to.equal(1700000000000);
+                expect(await files.get("GET wttp://other/")).to.equal(undefined);
+
+                await files.clear();
+                expect(await fs.readdir(directory)).to.deep.equal([]);
+                await files.delete("GET wttp://site/");
+            } finally {
+                await fs.rm(directory, { recursive: true, force: true });
+            }
+        });
+    });
+});
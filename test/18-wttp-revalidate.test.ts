@@ -0,0 +1,140 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { WTTPGatewayV3__factory } from "../src/interfaces/contracts/WTTPGatewayV3__factory.js";
+import { WttpClient } from "../src/utils/wttpClient.js";
+import { WttpMemoryCacheStore, getValidators, mergeNotModified } from "../src/utils/wttpCache.js";
+import { WttpResponse } from "../src/utils/wttpResponse.js";
+import { MockResource, MockRpc, getMockCall, startMockRpc } from "./helpers/mockRpc.js";
+
+const gateway = "0x36C02dA8a0983159322a80FFE9F24b1acfF8B570";
+const site = "0x4c5859f0F772848b2D91F1D83E2Fe57935348029";
+
+const gatewayInterface = WTTPGatewayV3__factory.createInterface();
+
+const text = (value: string) => ethers.hexlify(ethers.toUtf8Bytes(value));
+
+describe("WTTP Revalidation", () => {
+    let rpc: MockRpc;
+    let resources: Record<string, MockResource>;
+    let store: WttpMemoryCacheStore;
+    let client: WttpClient;
+    let requests: { path: string; ifNoneMatch: string; ifModifiedSince: bigint }[];
+
+    const sent = (path: string) => requests.filter((request) => request.path === path);
+
+    before(async () => {
+        resources = {
+            "/etag": { data: text("etag") },
+            "/dated": { data: text("dated"), etag: ethers.ZeroHash, metadata: { lastModified: 1700000000 } },
+            "/changing": { data: text("before") },
+            "/head": { data: text("head"), cache: { noCache: true } }
+        };
+        requests = [];
+        rpc = await startMockRpc({
+            chainId: 31337,
+            gateway,
+            site,
+            resources,
+            intercept: (method, params) => {
+                const tx = getMockCall(method, params);
+                if (!tx || tx.to.toLowerCase() !== gateway.toLowerCase()) return undefined;
+                const call = gatewayInterface.parseTransaction({ data: tx.data });
+                if (call?.name === "GET" || call?.name === "HEAD") {
+                    const head = call.name === "GET" ? call.args[1].head : call.args[1];
+                    requests.push({ path: head.requestLine.path, ifModifiedSince: head.ifModifiedSince, ifNoneMatch: head.ifNoneMatch });
+                }
+                return undefined;
+            }
+        });
+    });
+
+    beforeEach(() => {
+        requests.length = 0;
+        store = new WttpMemoryCacheStore();
+        client = new WttpClient({
+            wttpConfig: { networks: { localhost: { rpcList: [rpc.url], chainId: 31337, gateway } } },
+            cache: { store }
+        });
+    });
+
+    afterEach(() => {
+        client.destroy();
+    });
+
+    after(async () => {
+        await rpc.close();
+    });
+
+    describe("wttpRevalidate:conditions", () => {
+        it("should send the stored etag when the entry is stale", async () => {
+            const first = await client.get(`wttp://${site}/etag`);
+            const second = await client.get(`wttp://${site}/etag`);
+            expect(sent("/etag").map((request) => request.ifNoneMatch)).to.deep.equal([ethers.ZeroHash, first.head.etag]);
+            expect(second.cacheStatus).to.equal("REVALIDATED");
+            expect(second.head.responseLine.code).to.equal(200n);
+            expect(second.text()).to.equal("etag");
+            expect(second.attempts).to.equal(1);
+        });
+
+        it("should send the stored last modified time without an etag", async () => {
+            await client.get(`wttp://${site}/dated`);
+            const second = await client.get(`wttp://${site}/dated`);
+            expect(sent("/dated").map((request) => request.ifModifiedSince)).to.deep.equal([0n, 1700000000n]);
+            expect(second.cacheStatus).to.equal("REVALIDATED");
+            expect(second.text()).to.equal("dated");
+        });
+
+        it("should replace the entry when the resource changed", async () => {
+            await client.get(`wttp://${site}/changing`);
+            resources["/changing"].data = text("after");
+            const second = await client.get(`wttp://${site}/changing`);
+            expect(second.cacheStatus).to.equal("MISS");
+            expect(second.text()).to.equal("after");
+            const third = await client.get(`wttp://${site}/changing`);
+            expect(third.cacheStatus).to.equal("REVALIDATED");
+            expect(third.text()).to.equal("after");
+        });
+
+        it("should revalidate HEAD responses", async () => {
+            await client.head(`wttp://${site}/head`);
+            const second = await client.head(`wttp://${site}/head`);
+            expect(second.cacheStatus).to.equal("REVALIDATED");
+            expect(second.responseLine.code).to.equal(200n);
+            expect(second.metadata.size).to.equal(4n);
+        });
+
+        it("should pass caller conditions through to the gateway", async () => {
+            const first = await client.get(`wttp://${site}/etag`);
+            const conditional = await client.get(`wttp://${site}/etag`, { ifNoneMatch: first.head.etag.toString() });
+            expect(conditional.head.responseLine.code).to.equal(304n);
+            expect(conditional.cacheStatus).to.equal("MISS");
+        });
+    });
+
+    describe("wttpRevalidate:merge", () => {
+        const response = (status: number, maxAge: number, body?: string) => new WttpResponse({
+            protocol: "WTTP/3.0",
+            status,
+            headers: { methods: ["GET"], resourceAdmin: ethers.ZeroHash },
+            cache: { maxAge, noStore: false, noCache: false, immutableFlag: false, publicFlag: false },
+            redirect: { code: 0, location: "" },
+            metadata: { mimeType: "0x7468", charset: "0x0000", encoding: "0x0000", language: "0x0000", size: 4, version: 1, lastModified: new Date(1700000000000), header: ethers.ZeroHash },
+            etag: ethers.id("body"),
+            body: body === undefined ? undefined : ethers.toUtf8Bytes(body)
+        });
+
+        it("should keep the stored body and take the cache directives of the 304", () => {
+            const merged = mergeNotModified(response(200, 60, "body"), response(304, 600));
+            expect(merged.status).to.equal(200);
+            expect(merged.text()).to.equal("body");
+            expect(merged.cache.maxAge).to.equal(600);
+        });
+
+        it("should read the validators of a stored response", () => {
+            expect(getValidators(response(200, 0, "body"))).to.deep.equal({
+                ifNoneMatch: ethers.id("body"),
+                ifModifiedSince: 1700000000n
+            });
+        });
+    });
+});
@@ -0,0 +1,173 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { GETOptions, WttpGETResponse } from "../src/interfaces/WTTPTypes.js";
+import { WttpClient } from "../src/utils/wttpClient.js";
+import { WttpRangeError } from "../src/utils/wttpErrors.js";
+import { parseByteRanges, resolveByteRanges, toMultipartByteRanges } from "../src/utils/wttpRange.js";
+import { MockRpc, startMockRpc } from "./helpers/mockRpc.js";
+
+const gateway = "0x36C02dA8a0983159322a80FFE9F24b1acfF8B570";
+const site = "0x4c5859f0F772848b2D91F1D83E2Fe57935348029";
+
+const content = "0123456789abcdefghij";
+
+describe("WTTP Range", () => {
+    let rpc: MockRpc;
+    let client: WttpClient;
+
+    before(async () => {
+        rpc = await startMockRpc({
+            chainId: 31337,
+            gateway,
+            site,
+            resources: {
+                "/file.txt": { data: ethers.hexlify(ethers.toUtf8Bytes(content)), metadata: { mimeType: "0x7470" } },
+                "/moved": { code: 301, redirect: { code: 301, location: "/file.txt" } }
+            }
+        });
+        client = new WttpClient({
+            wttpConfig: { networks: { localhost: { rpcList: [rpc.url], chainId: 31337, gateway } } }
+        });
+    });
+
+    after(async () => {
+        client.destroy();
+        await rpc.close();
+    });
+
+    describe("wttpRange:parse", () => {
+        it("should parse closed, open-ended and suffix ranges", () => {
+            expect(parseByteRanges("bytes=0-1023, 1024-,-500")).to.deep.equal([
+                { first: 0, last: 1023 },
+                { first: 1024, last: undefined },
+                { suffix: 500 }
+            ]);
+        });
+
+        it("should reject malformed ranges", () => {
+            for (const value of ["0-10", "items=0-10", "bytes=", "bytes=-", "bytes=10-5", "bytes=a-b"]) {
+                expect(() => parseByteRanges(value), value).to.throw(WttpRangeError).with.property("status", 400);
+            }
+        });
+
+        it("should resolve ranges against the size", () => {
+            expect(resolveByteRanges("bytes=0-9", 20)).to.deep.equal([{ start: 0, end: 10 }]);
+            expect(resolveByteRanges("bytes=15-", 20)).to.deep.equal([{ start: 15, end: 20 }]);
+            expect(resolveByteRanges("bytes=-5", 20)).to.deep.equal([{ start: 15, end: 20 }]);
+            expect(resolveByteRanges("bytes=-50", 20)).to.deep.equal([{ start: 0, end: 20 }]);
+            expect(resolveByteRanges("bytes=10-100,30-40", 20)).to.deep.equal([{ start: 10, end: 20 }]);
+        });
+
+        it("should sort and merge overlapping and adjacent ranges", () => {
+            expect(resolveByteRanges("bytes=10-14,0-4,5-7", 20)).to.deep.equal([{ start: 0, end: 8 }, { start: 10, end: 15 }]);
+            expect(resolveByteRanges("bytes=-5,0-1,12-16", 20)).to.deep.equal([{ start: 0, end: 2 }, { start: 12, end: 20 }]);
+        });
+
+        it("should report unsatisfiable ranges with the size", () => {
+            try {
+                resolveByteRanges("bytes=20-,-0", 20);
+                expect.fail("should have thrown");
+            } catch (error) {
+                expect(error).to.be.instanceOf(WttpRangeError);
+                expect((error as WttpRangeError).code).to.equal("RANGE_NOT_SATISFIABLE");
+                expect((error as WttpRangeError).status).to.equal(416);
+                expect((error as WttpRangeError).size).to.equal(20);
+            }
+        });
+    });
+
+    describe("wttpRange:get", () => {
+        it("should read a single range", async () => {
+            const response = await client.get(`wttp://${site}/file.txt`, { range: "bytes=2-5" });
+            expect(response.text()).to.equal("2345");
+            expect(Number(response.bytesRange.start)).to.equal(2);
+            expect(Number(response.bytesRange.end)).to.equal(6);
+            expect(response.parts).to.equal(undefined);
+        });
+
+        it("should read open-ended and suffix ranges", async () => {
+            expect((await client.get(`wttp://${site}/file.txt`, { range: "bytes=16-" })).text()).to.equal("ghij");
+            expect((await client.get(`wttp://${site}/file.txt`, { range: "bytes=-3" })).text()).to.equal("hij");
+        });
+
+        it("should return the parts of a multi-range request", async () => {
+            const response = await client.get(`wttp://${site}/file.txt`, { range: "bytes=0-1,-2" });
+            expect(response.body.length).to.equal(0);
+            expect(response.parts?.map((part) => [part.start, part.end, ethers.toUtf8String(part.body)])).to.deep.equal([
+                [0, 2, "01"],
+                [18, 20, "ij"]
+            ]);
+        });
+
+        it("should encode parts as multipart/byteranges", async () => {
+            const response = await client.get(`wttp://${site}/file.txt`, { range: "bytes=0-1,4-5" });
+            const multipart = toMultipartByteRanges(response, "sep");
+            expect(multipart.contentType).to.equal("multipart/byteranges; boundary=sep");
+            expect(ethers.toUtf8String(multipart.body)).to.equal([
+                "--sep", "Content-Type: text/plain", "Content-Range: bytes 0-1/20", "", "01",
+                "--sep", "Content-Type: text/plain", "Content-Range: bytes 4-5/20", "", "45",
+                "--sep--", ""
+            ].join("\r\n"));
+        });
+
+        it("should read repeated ranges with a single call", async () => {
+            const calls = rpc.contractCalls.filter((call) => call === "gateway.GET").length;
+            const response = await client.get(`wttp://${site}/file.txt`, { range: `bytes=${Array(100).fill("0-1").join(",")}` });
+            expect(response.text()).to.equal("01");
+            expect(response.parts).to.equal(undefined);
+            expect(rpc.contractCalls.filter((call) => call === "gateway.GET").length - calls).to.equal(1);
+        });
+
+        it("should keep at most concurrency range calls in flight", async () => {
+            class CountingClient extends WttpClient {
+                inFlight = 0;
+                maxInFlight = 0;
+
+                async get(url: URL | string, options?: GETOptions): Promise<WttpGETResponse> {
+                    // Count the calls of the single ranges only
+                    if (typeof options?.range !== "object") return super.get(url, options);
+                    this.maxInFlight = Math.max(this.maxInFlight, ++this.inFlight);
+                    try {
+                        return await super.get(url, options);
+                    } finally {
+                        this.inFlight--;
+                    }
+                }
+            }
+            const counting = new CountingClient({
+                wttpConfig: { networks: { localhost: { rpcList: [rpc.url], chainId: 31337, gateway } } }
+            });
+            try {
+                const response = await counting.get(`wttp://${site}/file.txt`, { range: "bytes=0-0,2-2,4-4,6-6,8-8", concurrency: 2 });
+                expect(response.parts?.map((part) => ethers.toUtf8String(part.body)).join("")).to.equal("02468");
+                expect(counting.maxInFlight).to.equal(2);
+            } finally {
+                counting.destroy();
+            }
+        });
+
+        it("should reject unsatisfiable ranges before reading content", async () => {
+            const calls = rpc.contractCalls.filter((call) => call === "gateway.GET").length;
+            try {
+                await client.get(`wttp://${site}/file.txt`, { range: "bytes=100-" });
+                expect.fail("should have thrown");
+            } catch (error) {
+                expect(error).to.be.instanceOf(WttpRangeError);
+                expect((error as WttpRangeError).status).to.equal(416);
+            }
+            expect(rpc.contractCalls.filter((call) => call === "gateway.GET").length).to.equal(calls);
+        });
+
+        it("should follow redirects before resolving ranges", async () => {
+            const response = await client.get(`wttp://${site}/moved`, { range: "bytes=0-2", redirect: "follow" });
+            expect(response.text()).to.equal("012");
+            expect(response.url).to.equal(`wttp://${site}/file.txt`);
+            expect(response.redirects?.map((hop) => hop.status)).to.deep.equal([301]);
+        });
+
+        it("should return responses without content as is", async () => {
+            const missing = await client.get(`wttp://${site}/missing`, { range: "bytes=0-2" });
+            expect(missing.head.responseLine.code).to.equal(404n);
+        });
+    });
+});
@@ -0,0 +1,162 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { WttpClient } from "../src/utils/wttpClient.js";
+import { WttpMemoryCacheStore, getCacheKey, getStaleness } from "../src/utils/wttpCache.js";
+import { WttpNotCachedError } from "../src/utils/wttpErrors.js";
+import { MockRpc, startMockRpc } from "./helpers/mockRpc.js";
+
+const gateway = "0x36C02dA8a0983159322a80FFE9F24b1acfF8B570";
+const site = "0x4c5859f0F772848b2D91F1D83E2Fe57935348029";
+
+const text = (value: string) => ethers.hexlify(ethers.toUtf8Bytes(value));
+
+describe("WTTP Stale Responses", () => {
+    let rpc: MockRpc;
+    let offline: boolean;
+    let store: WttpMemoryCacheStore;
+    let client: WttpClient;
+
+    const gets = () => rpc.contractCalls.filter((call) => call === "gateway.GET").length;
+
+    /**
+     * Moves the stored entry of a resource back in time
+     */
+    const age = async (path: string, seconds: number) => {
+        const key = getCacheKey("GET", new URL(`wttp://${site}:31337${path}`), { start: 0, end: 0 });
+        const entry = (await store.get(key))!;
+        await store.set(key, { ...entry, storedAt: entry.storedAt - seconds * 1000 });
+    };
+
+    const createClient = (cache: Partial<ConstructorParameters<typeof WttpClient>[0]["cache"]> = {}) => new WttpClient({
+        wttpConfig: { networks: { localhost: { rpcList: [rpc.url], chainId: 31337, gateway } } },
+        retry: { maxAttempts: 1 },
+        cache: { store, ...cache }
+    });
+
+    before(async () => {
+        rpc = await startMockRpc({
+            chainId: 31337,
+            gateway,
+            site,
+            resources: {
+                "/page": { data: text("page"), cache: { maxAge: 60 } },
+                "/revalidated": { data: text("revalidated") }
+            },
+            intercept: () => offline ? { status: 503 } : undefined
+        });
+    });
+
+    beforeEach(() => {
+        offline = false;
+        store = new WttpMemoryCacheStore();
+        client = createClient();
+    });
+
+    afterEach(() => {
+        client.destroy();
+    });
+
+    after(async () => {
+        await rpc.close();
+    });
+
+    describe("wttpStale:staleIfError", () => {
+        it("should serve a stale response when every RPC is unreachable", async () => {
+            client.destroy();
+            client = createClient({ staleIfError: 3600 });
+            await client.get(`wttp://${site}/page`);
+            await age("/page", 120);
+            offline = true;
+
+            const response = await client.get(`wttp://${site}/page`);
+            expect(response.cacheStatus).to.equal("STALE");
+            expect(response.stale).to.equal(true);
+            expect(response.age).to.be.within(120, 121);
+            expect(response.text()).to.equal("page");
+        });
+
+        it("should return the failure once the entry is stale for longer than the window", async () => {
+            await client.get(`wttp://${site}/page`);
+            await age("/page", 120);
+            offline = true;
+
+            const response = await client.get(`wttp://${site}/page`, { staleIfError: 30 });
+            expect(response.cacheStatus).to.equal("MISS");
+            expect(response.diagnostics?.cause).to.equal("RPC_UNAVAILABLE");
+        });
+
+        it("should not serve stale responses without the option", async () => {
+            await client.get(`wttp://${site}/page`);
+            await age("/page", 120);
+            offline = true;
+
+            const response = await client.get(`wttp://${site}/page`);
+            expect(response.head.responseLine.code).to.equal(503n);
+        });
+    });
+
+    describe("wttpStale:offline", () => {
+        it("should serve cached responses without calling the gateway", async () => {
+            await client.get(`wttp://${site}/page`);
+            await age("/page", 600);
+            const calls = gets();
+
+            const response = await client.get(`wttp://${site}/page`, { cache: "offline" });
+            expect(response.cacheStatus).to.equal("STALE");
+            expect(response.age).to.be.within(600, 601);
+            expect(gets()).to.equal(calls);
+        });
+
+        it("should reject offline requests without a cached response", async () => {
+            client.destroy();
+            client = createClient({ mode: "offline" });
+            try {
+                await client.get(`wttp://${site}/page`);
+                expect.fail("should have thrown");
+            } catch (error) {
+                expect(error).to.be.instanceOf(WttpNotCachedError);
+                expect((error as WttpNotCachedError).status).to.equal(504);
+            }
+        });
+    });
+
+    describe("wttpStale:staleWhileRevalidate", () => {
+        it("should serve a stale response and revalidate it in the background", async () => {
+            await client.get(`wttp://${site}/revalidated`);
+            const calls = gets();
+
+            const response = await client.get(`wttp://${site}/revalidated`, { staleWhileRevalidate: 60 });
+            expect(response.cacheStatus).to.equal("STALE");
+            expect(response.stale).to.equal(true);
+            expect(response.text()).to.equal("revalidated");
+
+            for (let i = 0; i < 50 && gets() === calls; i++) {
+                await new Promise((resolve) => setTimeout(resolve, 20));
+            }
+            expect(gets()).to.equal(calls + 1);
+        });
+    });
+
+    describe("wttpStale:age", () => {
+        it("should report the age of cached responses", async () => {
+            const first = await client.get(`wttp://${site}/page`);
+            expect(first.age).to.equal(0);
+            expect(first.stale).to.equal(false);
+            await age("/page", 30);
+            const second = await client.get(`wttp://${site}/page`);
+            expect(second.cacheStatus).to.equal("HIT");
+            expect(second.age).to.be.within(30, 31);
+        });
+
+        it("should measure staleness from the end of the freshness lifetime", async () => {
+            const entry = {
+                response: {
+                    cache: { maxAge: 60, noStore: false, noCache: false, immutableFlag: false, publicFlag: false }
+                } as any,
+                storedAt: 0
+            };
+            expect(getStaleness(entry, 30_000)).to.equal(0);
+            expect(getStaleness(entry, 90_000)).to.equal(30);
+        });
+    });
+});
@@ -0,0 +1,120 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { WttpConfig } from "../src/interfaces/WTTPTypes.js";
+import { WttpClient } from "../src/utils/wttpClient.js";
+import { createNetworkAliases } from "../src/utils/wttpConfig.js";
+import { WttpConfigError, WttpNetworkError } from "../src/utils/wttpErrors.js";
+import { MockRpc, startMockRpc } from "./helpers/mockRpc.js";
+
+const gateway = "0x36C02dA8a0983159322a80FFE9F24b1acfF8B570";
+const site = "0x4c5859f0F772848b2D91F1D83E2Fe57935348029";
+
+describe("WTTP Network Aliases", () => {
+    let rpc: MockRpc;
+    let client: WttpClient;
+
+    before(async () => {
+        rpc = await startMockRpc({
+            chainId: 8453,
+            gateway,
+            site,
+            resources: { "/index.html": { data: ethers.hexlify(ethers.toUtf8Bytes("base")) } }
+        });
+        client = new WttpClient({
+            wttpConfig: {
+                networks: {
+                    localhost: { rpcList: ["http://127.0.0.1:1"], chainId: 31337, gateway, aliases: ["leth"] },
+                    base: { rpcList: [rpc.url], chainId: 8453, gateway, aliases: ["Base-Mainnet", "b"] }
+                }
+            }
+        });
+    });
+
+    after(async () => {
+        client.destroy();
+        await rpc.close();
+    });
+
+    function expectConfigError(config: WttpConfig, key: string): WttpConfigError {
+        try {
+            createNetworkAliases(config);
+        } catch (error) {
+            expect(error).to.be.instanceOf(WttpConfigError);
+            expect((error as WttpConfigError).key).to.equal(key);
+            expect((error as WttpConfigError).code).to.equal("INVALID_CONFIG");
+            return error as WttpConfigError;
+        }
+        expect.fail("Should have thrown an error");
+    }
+
+    describe("wttpAliases:resolve", () => {
+        it("should map names, chain IDs and aliases to the network name", () => {
+            expect(client.getNetworkAlias("base")).to.equal("base");
+            expect(client.getNetworkAlias("8453")).to.equal("base");
+            expect(client.getNetworkAlias("b")).to.equal("base");
+            expect(client.getNetworkAlias("base-mainnet")).to.equal("base");
+            expect(client.getNetworkAlias("BASE")).to.equal("base");
+        });
+
+        it("should not know aliases of networks missing from the configuration", () => {
+            expect(client.getNetworkAlias("seth")).to.equal("seth");
+            expect(() => client.getNetworkName("seth")).to.throw(WttpNetworkError, /expected one of localhost, base/);
+        });
+
+        it("should send requests to a custom chain through its alias", async () => {
+            const response = await client.get(`wttp://${site}.b/index.html`);
+            expect(ethers.toUtf8String(response.data)).to.equal("base");
+            expect(response.url).to.equal(`wttp://${site}.b/index.html`);
+            expect(client.formatUrl(`wttp://${site}.b/index.html`)).to.equal(`wttp://${site}:8453/index.html`);
+        });
+
+        it("should report an unknown network instead of failing on a missing configuration", async () => {
+            try {
+                await client.getProvider({ url: new URL(`wttp://${site}/`), network: undefined as unknown as string, gateway, host: site });
+                expect.fail("Should have thrown an error");
+            } catch (error) {
+                expect(error).to.be.instanceOf(WttpNetworkError);
+                expect((error as WttpNetworkError).message).to.contain("Unknown network: undefined");
+            }
+        });
+    });
+
+    describe("wttpAliases:validate", () => {
+        it("should reject aliases used by two networks", () => {
+            const error = expectConfigError({
+                networks: {
+                    one: { rpcList: [], chainId: 1, gateway, aliases: ["main"] },
+                    two: { rpcList: [], chainId: 2, gateway, aliases: ["MAIN"] }
+                }
+            }, "networks.two.aliases[0]");
+            expect(error.message).to.contain("already refers to network one");
+        });
+
+        it("should reject aliases matching the name or chain ID of another network", () => {
+            expectConfigError({
+                networks: {
+                    one: { rpcList: [], chainId: 1, gateway },
+                    two: { rpcList: [], chainId: 2, gateway, aliases: ["one"] }
+                }
+            }, "networks.two.aliases[0]");
+            expectConfigError({
+                networks: {
+                    one: { rpcList: [], chainId: 1, gateway },
+                    two: { rpcList: [], chainId: 1, gateway }
+                }
+            }, "networks.two.chainId");
+        });
+
+        it("should reject invalid chain IDs and aliases", () => {
+            expectConfigError({ networks: { one: { rpcList: [], chainId: -1, gateway } } }, "networks.one.chainId");
+            expectConfigError({ networks: { one: { rpcList: [], chainId: 1, gateway, aliases: ["a.b"] } } }, "networks.one.aliases[0]");
+            expectConfigError({ networks: {} }, "networks");
+        });
+
+        it("should validate the configuration when the client is created", () => {
+            expect(() => new WttpClient({
+                wttpConfig: { networks: { one: { rpcList: [], chainId: 1, gateway, aliases: ["1"] }, two: { rpcList: [], chainId: 2, gateway, aliases: ["1"] } } }
+            })).to.throw(WttpConfigError);
+        });
+    });
+});
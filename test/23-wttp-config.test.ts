@@ -0,0 +1,157 @@
+import { expect } from "chai";
+import { mkdir, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { config } from "../wttp.config.js";
+import { loadWttpConfig, mergeWttpConfig, validateWttpConfig } from "../src/utils/wttpConfig.js";
+import { WttpConfigError } from "../src/utils/wttpErrors.js";
+
+const gateway = "0x36C02dA8a0983159322a80FFE9F24b1acfF8B570";
+
+describe("WTTP Config Loading", () => {
+    let directory: string;
+
+    beforeEach(async () => {
+        directory = await mkdtemp(join(tmpdir(), "wttp-config-"));
+    });
+
+    afterEach(async () => {
+        await rm(directory, { recursive: true, force: true });
+    });
+
+    async function expectConfigError(promise: Promise<unknown>): Promise<WttpConfigError> {
+        try {
+            await promise;
+        } catch (error) {
+            expect(error).to.be.instanceOf(WttpConfigError);
+            return error as WttpConfigError;
+        }
+        expect.fail("Should have thrown an error");
+    }
+
+    describe("wttpConfig:load", () => {
+        it("should return the built-in defaults without other layers", async () => {
+            expect(await loadWttpConfig({ file: false, env: false })).to.deep.equal(config);
+        });
+
+        it("should merge a JSON file found in a parent of the working directory", async () => {
+            await writeFile(join(directory, "package.json"), "{}");
+            await writeFile(join(directory, "wttp.config.json"), JSON.stringify({
+                networks: { sepolia: { gateway } }
+            }));
+            await mkdir(join(directory, "app"));
+
+            const loaded = await loadWttpConfig({ cwd: join(directory, "app"), env: false });
+            expect(loaded.networks.sepolia.gateway).to.equal(gateway);
+            expect(loaded.networks.sepolia.rpcList).to.deep.equal(config.networks.sepolia.rpcList);
+            expect(loaded.networks.mainnet).to.deep.equal(config.networks.mainnet);
+        });
+
+        it("should not look past the package root", async () => {
+            await writeFile(join(directory, "wttp.config.json"), JSON.stringify({ networks: { sepolia: { gateway } } }));
+            await mkdir(join(directory, "app"));
+            await writeFile(join(directory, "app", "package.json"), "{}");
+            await mkdir(join(directory, "app", "src"));
+
+            const inPackage = await loadWttpConfig({ cwd: join(directory, "app", "src"), env: false });
+            expect(inPackage.networks.sepolia).to.deep.equal(config.networks.sepolia);
+            // Outside a package only the working directory is searched
+            await rm(join(directory, "app", "package.json"));
+            const outside = await loadWttpConfig({ cwd: join(directory, "app"), env: false });
+            expect(outside.networks.sepolia).to.deep.equal(config.networks.sepolia);
+        });
+
+        it("should not look for TypeScript files", async () => {
+            await writeFile(join(directory, "wttp.config.ts"), "export const config = { networks: {} };");
+            const warnings: string[] = [];
+
+            const loaded = await loadWttpConfig({ cwd: directory, env: false, onWarning: (message) => warnings.push(message) });
+            expect(loaded).to.deep.equal(config);
+            expect(warnings).to.deep.equal([]);
+        });
+
+        it("should load a TypeScript file passed as the config file", async () => {
+            await writeFile(join(directory, "package.json"), JSON.stringify({ type: "module" }));
+            await writeFile(join(directory, "wttp.config.ts"), [
+                "export const config = {",
+                "    networks: { base: { rpcList: [\"https://mainnet.base.org\"], chainId: 8453 as number, gateway: \"" + gateway + "\" } }",
+                "};"
+            ].join("\n"));
+
+            const loaded = await loadWttpConfig({ cwd: directory, file: "wttp.config.ts", env: false });
+            expect(loaded.networks.base.chainId).to.equal(8453);
+            expect(Object.keys(loaded.networks)).to.deep.equal(["localhost", "sepolia", "mainnet", "base"]);
+        });
+
+        it("should apply environment variables", async () => {
+            const loaded = await loadWttpConfig({
+                file: false,
+                env: {
+                    WTTP_NETWORK_SEPOLIA_RPC: "https://rpc.one, https://rpc.two",
+                    WTTP_NETWORK_MAINNET_GATEWAY: gateway,
+                    WTTP_NETWORK_BASE_RPC: "https://mainnet.base.org",
+                    WTTP_NETWORK_BASE_CHAIN_ID: "8453",
+                    WTTP_NETWORK_BASE_GATEWAY: gateway,
+                    WTTP_NETWORK_BASE_ALIASES: "b",
+                    UNRELATED: "ignored"
+                }
+            });
+            expect(loaded.networks.sepolia.rpcList).to.deep.equal(["https://rpc.one", "https://rpc.two"]);
+            expect(loaded.networks.mainnet.gateway).to.equal(gateway);
+            expect(loaded.networks.base).to.deep.equal({ rpcList: ["https://mainnet.base.org"], chainId: 8453, gateway, aliases: ["b"] });
+        });
+
+        it("should apply overrides last and remove networks set to null", async () => {
+            const loaded = await loadWttpConfig({
+                file: false,
+                env: { WTTP_NETWORK_SEPOLIA_RPC: "https://env.rpc" },
+                overrides: { networks: { localhost: null, sepolia: { rpcList: ["https://override.rpc"] } } }
+            });
+            expect(Object.keys(loaded.networks)).to.deep.equal(["sepolia", "mainnet"]);
+            expect(loaded.networks.sepolia.rpcList).to.deep.equal(["https://override.rpc"]);
+        });
+
+        it("should not modify the defaults", () => {
+            const merged = mergeWttpConfig(config, { networks: { sepolia: { chainId: 5 } } });
+            expect(merged.networks.sepolia.chainId).to.equal(5);
+            expect(config.networks.sepolia.chainId).to.equal(11155111);
+        });
+    });
+
+    describe("wttpConfig:validate", () => {
+        it("should point at the offending key of a file", async () => {
+            const file = join(directory, "wttp.config.json");
+            await writeFile(file, JSON.stringify({ networks: { sepolia: { rpcList: ["https://ok.rpc", "ftp://bad.rpc"] } } }));
+            const error = await expectConfigError(loadWttpConfig({ cwd: directory, env: false }));
+            expect(error.key).to.equal("networks.sepolia.rpcList[1]");
+            expect(error.message).to.contain(file);
+        });
+
+        it("should point at the offending environment variable", async () => {
+            const error = await expectConfigError(loadWttpConfig({ file: false, env: { WTTP_NETWORK_SEPOLIA_CHAIN_ID: "sepolia" } }));
+            expect(error.key).to.equal("WTTP_NETWORK_SEPOLIA_CHAIN_ID");
+        });
+
+        it("should report unknown and missing settings", async () => {
+            expect(() => validateWttpConfig({ networks: { one: { rpcs: [], chainId: 1, gateway } } })).to.throw(WttpConfigError)
+                .with.property("key", "networks.one.rpcs");
+            const error = await expectConfigError(loadWttpConfig({ file: false, env: { WTTP_NETWORK_BASE_RPC: "https://mainnet.base.org" } }));
+            expect(error.key).to.equal("networks.base.chainId");
+            expect(error.message).to.contain("required");
+        });
+
+        it("should reject WebSocket RPC URLs", () => {
+            expect(() => validateWttpConfig({ networks: { one: { rpcList: ["wss://rpc.one"], chainId: 1, gateway } } })).to.throw(WttpConfigError)
+                .with.property("key", "networks.one.rpcList[0]");
+        });
+
+        it("should report invalid gateways and unreadable files", async () => {
+            const error = await expectConfigError(loadWttpConfig({ file: false, env: false, overrides: { networks: { mainnet: { gateway: "0x123" } } } }));
+            expect(error.key).to.equal("networks.mainnet.gateway");
+
+            await writeFile(join(directory, "wttp.config.json"), "{ networks:");
+            const unreadable = await expectConfigError(loadWttpConfig({ cwd: directory, env: false }));
+            expect(unreadable.message).to.contain("Could not load WTTP config file");
+        });
+    });
+});
@@ -0,0 +1,178 @@
+import { expect } from "chai";
+import { execFile } from "child_process";
+import { mkdtemp, readdir, rm, stat, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { promisify } from "util";
+import { WttpConfig } from "../src/interfaces/WTTPTypes.js";
+import { WttpConfigError, WttpNetworkError } from "../src/utils/wttpErrors.js";
+import { formatWttpConfigReport, verifyWttpConfig } from "../src/utils/wttpVerify.js";
+import { MockRpc, startMockRpc } from "./helpers/mockRpc.js";
+
+const gateway = "0x36C02dA8a0983159322a80FFE9F24b1acfF8B570";
+const site = "0x4c5859f0F772848b2D91F1D83E2Fe57935348029";
+const other = "0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045";
+
+describe("WTTP Config Verification", () => {
+    let local: MockRpc;
+    let wrongChain: MockRpc;
+
+    before(async () => {
+        local = await startMockRpc({ chainId: 31337, gateway, site, resources: {} });
+        wrongChain = await startMockRpc({ chainId: 1, gateway, site, resources: {} });
+    });
+
+    after(async () => {
+        await local.close();
+        await wrongChain.close();
+    });
+
+    const createConfig = (rpcList: string[], gatewayAddress = gateway): WttpConfig => ({
+        networks: { localhost: { rpcList, chainId: 31337, gateway: gatewayAddress, aliases: ["leth"] } }
+    });
+
+    describe("wttpVerify:endpoints", () => {
+        it("should pass every check of a correctly configured network", async () => {
+            const report = await verifyWttpConfig(createConfig([local.url]), { hosts: { localhost: site } });
+            expect(report.ok).to.equal(true);
+            const [endpoint] = report.networks[0].endpoints;
+            expect(endpoint.chainId).to.equal(31337);
+            expect(endpoint.latencyMs).to.be.a("number");
+            expect(Object.values(endpoint.checks).map((check) => check.status)).to.deep.equal(["pass", "pass", "pass"]);
+        });
+
+        it("should report endpoints serving another chain", async () => {
+            const report = await verifyWttpConfig(createConfig([local.url, wrongChain.url]));
+            expect(report.ok).to.equal(false);
+            const [good, wrong] = report.networks[0].endpoints;
+            expect(good.ok).to.equal(true);
+            expect(wrong.ok).to.equal(false);
+            expect(wrong.chainId).to.equal(1);
+            expect(wrong.checks.chainId.message).to.contain("serves chain 1, expected 31337");
+            expect(wrong.checks.gatewayCode.status).to.equal("skip");
+        });
+
+        it("should report unreachable endpoints", async () => {
+            const report = await verifyWttpConfig(createConfig(["http://127.0.0.1:1"]), { timeoutMs: 2000 });
+            const [endpoint] = report.networks[0].endpoints;
+            expect(endpoint.ok).to.equal(false);
+            expect(endpoint.chainId).to.equal(undefined);
+            expect(endpoint.checks.chainId.status).to.equal("fail");
+            expect(endpoint.checks.gatewayProbe.message).to.equal("endpoint unreachable");
+            expect(endpoint.checks.gatewayProbe.reason).to.equal("endpoint-unreachable");
+        });
+
+        it("should report gateways without code", async () => {
+            const report = await verifyWttpConfig(createConfig([local.url], other));
+            const [endpoint] = report.networks[0].endpoints;
+            expect(endpoint.checks.gatewayCode.status).to.equal("fail");
+            expect(endpoint.checks.gatewayCode.message).to.contain(other);
+            expect(endpoint.checks.gatewayProbe.reason).to.equal("no-gateway-contract");
+        });
+
+        it("should check the gateway code for the WTTP methods without a probe host", async () => {
+            const report = await verifyWttpConfig(createConfig([local.url]));
+            expect(report.networks[0].endpoints[0].checks.gatewayProbe.status).to.equal("pass");
+
+            // The site has code, but no gateway dispatcher
+            const notGateway = await verifyWttpConfig(createConfig([local.url], site));
+            const { gatewayProbe } = notGateway.networks[0].endpoints[0].checks;
+            expect(notGateway.ok).to.equal(false);
+            expect(gatewayProbe.status).to.equal("fail");
+            expect(gatewayProbe.message).to.contain("gateway code does not dispatch HEAD, GET, OPTIONS, LOCATE");
+        });
+
+        it("should report failed gateway probes", async () => {
+            const report = await verifyWttpConfig(createConfig([local.url]), { hosts: { localhost: other } });
+            expect(report.ok).to.equal(false);
+            expect(report.networks[0].endpoints[0].checks.gatewayProbe.status).to.equal("fail");
+        });
+    });
+
+    describe("wttpVerify:options", () => {
+        it("should only check the requested networks", async () => {
+            const config: WttpConfig = {
+                networks: {
+                    ...createConfig([local.url]).networks,
+                    mainnet: { rpcList: ["http://127.0.0.1:1"], chainId: 1, gateway }
+                }
+            };
+            const report = await verifyWttpConfig(config, { networks: ["leth"] });
+            expect(report.networks.map((network) => network.network)).to.deep.equal(["localhost"]);
+
+            try {
+                await verifyWttpConfig(config, { networks: ["sepolia"] });
+                expect.fail("Should have thrown an error");
+            } catch (error) {
+                expect(error).to.be.instanceOf(WttpNetworkError);
+            }
+        });
+
+        it("should reject invalid configurations", async () => {
+            try {
+                await verifyWttpConfig(createConfig([]));
+                expect.fail("Should have thrown an error");
+            } catch (error) {
+                expect(error).to.be.instanceOf(WttpConfigError);
+                expect((error as WttpConfigError).key).to.equal("networks.localhost.rpcList");
+            }
+        });
+
+        it("should format the report", async () => {
+            const report = await verifyWttpConfig(createConfig([wrongChain.url]));
+            const text = formatWttpConfigReport(report);
+            expect(text).to.contain(`✘ localhost (chain 31337, gateway ${gateway})`);
+            expect(text).to.contain(`✘ chainId:`);
+            expect(text).to.contain("- gatewayProbe: wrong chain");
+            expect(text).to.match(/Some checks failed$/);
+        });
+    });
+
+    describe("wttpVerify:doctor", () => {
+        let directory: string;
+        let file: string;
+
+        // Runs the doctor script, resolving to its exit code and output
+        const doctor = (...args: string[]) => promisify(execFile)("node", ["scripts/wttp-doctor.js", "--config", file, ...args], { timeout: 30000 })
+            .then(({ stdout, stderr }) => ({ code: 0, stdout, stderr }))
+            .catch((error: { code: number; stdout: string; stderr: string }) => ({ code: error.code, stdout: error.stdout, stderr: error.stderr }));
+
+        before(async function () {
+            // The script runs on the bundle, so build it when it is missing or older than the sources
+            this.timeout(300000);
+            const built = await stat("dist/index.esm.js").then((info) => info.mtimeMs, () => 0);
+            const sources = await readdir("src", { recursive: true });
+            const modified = await Promise.all(sources.map((source) => stat(join("src", source)).then((info) => info.mtimeMs > built)));
+            if (modified.includes(true)) {
+                await promisify(execFile)("npm", ["run", "build"], { timeout: 280000 });
+            }
+            directory = await mkdtemp(join(tmpdir(), "wttp-doctor-"));
+            file = join(directory, "wttp.config.json");
+            await writeFile(file, JSON.stringify(createConfig([local.url])));
+        });
+
+        after(async () => {
+            await rm(directory, { recursive: true, force: true });
+        });
+
+        it("should exit with 0 when every check passes", async () => {
+            const result = await doctor("--network", "localhost", "--host", `localhost=${site}`, "--json");
+            expect(result.code).to.equal(0);
+            const report = JSON.parse(result.stdout);
+            expect(report.networks[0].endpoints[0].checks.gatewayProbe.status).to.equal("pass");
+            expect(result.stderr).to.equal("");
+        }).timeout(10000);
+
+        it("should probe the gateway without a host", async () => {
+            const result = await doctor("--network", "leth");
+            expect(result.code).to.equal(0);
+            expect(result.stdout).to.contain("✔ gatewayProbe");
+            expect(result.stderr).to.equal("");
+        }).timeout(10000);
+
+        it("should exit with 1 when a check fails and 2 when the arguments are invalid", async () => {
+            expect((await doctor("--network", "localhost", "--host", `localhost=${other}`)).code).to.equal(1);
+            expect((await doctor("--host", "localhost")).code).to.equal(2);
+        }).timeout(10000);
+    });
+});
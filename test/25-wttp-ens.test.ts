@@ -0,0 +1,171 @@
+import { expect } from "chai";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { WttpConfig, WttpHandlerConfig } from "../src/interfaces/WTTPTypes.js";
+import { WttpClient } from "../src/utils/wttpClient.js";
+import { loadWttpConfig, validateWttpConfig } from "../src/utils/wttpConfig.js";
+import { WttpFileEnsStore, WttpMemoryEnsStore } from "../src/utils/wttpEns.js";
+import { WttpConfigError, WttpEnsError, WttpNetworkError } from "../src/utils/wttpErrors.js";
+import { MockRpc, startMockRpc } from "./helpers/mockRpc.js";
+
+const gateway = "0x36C02dA8a0983159322a80FFE9F24b1acfF8B570";
+const site = "0x4c5859f0F772848b2D91F1D83E2Fe57935348029";
+const registry = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+const resolver = "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512";
+
+describe("WTTP ENS Resolution", () => {
+    let rpc: MockRpc;
+    let clients: WttpClient[] = [];
+
+    before(async () => {
+        rpc = await startMockRpc({
+            chainId: 31337,
+            gateway,
+            site,
+            resources: {},
+            ens: { registry, resolver, names: { "site.eth": site } }
+        });
+    });
+
+    afterEach(() => {
+        clients.forEach((client) => client.destroy());
+        clients = [];
+        rpc.contractCalls.length = 0;
+    });
+
+    after(async () => {
+        await rpc.close();
+    });
+
+    const createConfig = (ens: WttpConfig["ens"] = { network: "leth", registry }): WttpConfig => ({
+        networks: { localhost: { rpcList: [rpc.url], chainId: 31337, gateway, aliases: ["leth"] } },
+        ens
+    });
+
+    function createClient(config: WttpConfig = createConfig(), options: Partial<WttpHandlerConfig> = {}): WttpClient {
+        const client = new WttpClient({ wttpConfig: config, ...options });
+        clients.push(client);
+        return client;
+    }
+
+    const lookups = () => rpc.contractCalls.filter((call) => call === "ens.resolver").length;
+
+    async function expectEnsError(promise: Promise<unknown>): Promise<WttpEnsError> {
+        try {
+            await promise;
+        } catch (error) {
+            expect(error).to.be.instanceOf(WttpEnsError);
+            return error as WttpEnsError;
+        }
+        expect.fail("Should have thrown an error");
+    }
+
+    describe("wttpEns:config", () => {
+        it("should resolve names on the network and registry of the ens section", async () => {
+            const client = createClient();
+            expect(await client.resolveEnsName("site.eth")).to.equal(site);
+            const parsed = await client.parseUrl("wttp://site.eth:31337/index.html");
+            expect(parsed.host).to.equal(site);
+        });
+
+        it("should resolve names through the RPC endpoints of the ens section", async () => {
+            const client = createClient({
+                networks: { sepolia: { rpcList: ["http://127.0.0.1:1"], chainId: 11155111, gateway } },
+                ens: { rpcList: [rpc.url], chainId: 31337, registry }
+            });
+            expect(await client.resolveEnsName("site.eth")).to.equal(site);
+        });
+
+        it("should report a missing ENS network", async () => {
+            const client = createClient({ networks: createConfig().networks });
+            try {
+                await client.resolveEnsName("site.eth");
+                expect.fail("Should have thrown an error");
+            } catch (error) {
+                expect(error).to.be.instanceOf(WttpNetworkError);
+                expect((error as Error).message).to.contain("Cannot resolve ENS names: network mainnet is not configured");
+            }
+        });
+
+        it("should validate the ens section", () => {
+            expect(() => validateWttpConfig(createConfig({ registry: "0x123" }))).to.throw(WttpConfigError)
+                .with.property("key", "ens.registry");
+            expect(() => validateWttpConfig(createConfig({ network: "sepolia" }))).to.throw(WttpConfigError)
+                .with.property("key", "ens.network");
+            expect(() => validateWttpConfig(createConfig({ network: "leth", chainId: 1 }))).to.throw(WttpConfigError)
+                .with.property("key", "ens.chainId");
+            expect(() => validateWttpConfig(createConfig({ rpcs: [] } as any))).to.throw(WttpConfigError)
+                .with.property("key", "ens.rpcs");
+        });
+
+        it("should load the ens section from environment variables and overrides", async () => {
+            const loaded = await loadWttpConfig({
+                file: false,
+                env: { WTTP_ENS_RPC: "https://ens.rpc", WTTP_ENS_CHAIN_ID: "1", WTTP_ENS_REGISTRY: registry }
+            });
+            expect(loaded.ens).to.deep.equal({ rpcList: ["https://ens.rpc"], chainId: 1, registry });
+
+            const removed = await loadWttpConfig({ file: false, env: { WTTP_ENS_NETWORK: "sepolia" }, overrides: { ens: null } });
+            expect(removed.ens).to.equal(undefined);
+        });
+    });
+
+    describe("wttpEns:cache", () => {
+        it("should cache resolved names", async () => {
+            const client = createClient();
+            await client.resolveEnsName("site.eth");
+            await client.resolveEnsName("SITE.eth");
+            expect(lookups()).to.equal(1);
+        });
+
+        it("should coalesce concurrent lookups of a name", async () => {
+            const client = createClient(createConfig(), { ensCache: false });
+            const addresses = await Promise.all([1, 2, 3].map(() => client.resolveEnsName("site.eth")));
+            expect(addresses).to.deep.equal([site, site, site]);
+            expect(lookups()).to.equal(1);
+
+            await client.resolveEnsName("site.eth");
+            expect(lookups()).to.equal(2);
+        });
+
+        it("should cache names without an address for the negative TTL", async () => {
+            const client = createClient(createConfig(), { ensCache: { negativeTtlMs: 50 } });
+            const error = await expectEnsError(client.resolveEnsName("missing.eth"));
+            expect(error.message).to.contain("Could not resolve ENS name: missing.eth");
+            await expectEnsError(client.resolveEnsName("missing.eth"));
+            expect(lookups()).to.equal(1);
+
+            await new Promise((resolve) => setTimeout(resolve, 60));
+            await expectEnsError(client.resolveEnsName("missing.eth"));
+            expect(lookups()).to.equal(2);
+        });
+
+        it("should keep names apart across registries", async () => {
+            const store = new WttpMemoryEnsStore();
+            await createClient(createConfig(), { ensCache: { store } }).resolveEnsName("site.eth");
+            const other = createConfig({ network: "leth", registry: resolver });
+            // The resolver is no registry, so the lookup fails instead of hitting the entry of the first registry
+            await expectEnsError(createClient(other, { ensCache: { store } }).resolveEnsName("site.eth"));
+            expect(store.size).to.equal(1);
+        });
+
+        it("should keep names in a file across clients", async () => {
+            const directory = await mkdtemp(join(tmpdir(), "wttp-ens-"));
+            try {
+                const file = join(directory, "ens", "names.json");
+                await createClient(createConfig(), { ensCache: { store: new WttpFileEnsStore(file) } }).resolveEnsName("site.eth");
+                const resolved = await createClient(createConfig(), { ensCache: { store: new WttpFileEnsStore(file) } }).resolveEnsName("site.eth");
+                expect(resolved).to.equal(site);
+                expect(lookups()).to.equal(1);
+
+                const store = new WttpFileEnsStore(file);
+                await store.clear();
+                await createClient(createConfig(), { ensCache: { store } }).resolveEnsName("site.eth");
+                expect(lookups()).to.equal(2);
+            } finally {
+                await rm(directory, { recursive: true, force: true });
+            }
+        });
+    });
+});
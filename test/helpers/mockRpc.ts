@@ -0,0 +1,261 @@
+import http from "http";
+import { AddressInfo } from "net";
+import { ethers } from "ethers";
+import { WTTPGatewayV3__factory } from "../../src/interfaces/contracts/WTTPGatewayV3__factory.js";
+import { Web3Site__factory } from "../../src/interfaces/contracts/Web3Site__factory.js";
+
+/**
+ * A resource served by the mock WTTP site
+ */
+export type MockResource = {
+    code?: number;
+    data?: string;
+    methods?: number;
+    cache?: Partial<{ maxAge: number; noStore: boolean; noCache: boolean; immutableFlag: boolean; publicFlag: boolean }>;
+    redirect?: { code: number; location: string };
+    metadata?: Partial<{ mimeType: string; charset: string; encoding: string; language: string; version: number; lastModified: number }>;
+    etag?: string;
+    dataPoints?: string[];
+};
+
+/**
+ * A JSON-RPC request received by the mock
+ */
+export type MockRpcRequest = {
+    jsonrpc?: string;
+    id: number;
+    method: string;
+    params: unknown[];
+};
+
+/**
+ * The transaction of an eth_call
+ */
+export type MockCall = {
+    to: string;
+    data: string;
+};
+
+export type MockRpcOptions = {
+    chainId: number;
+    gateway: string;
+    site: string;
+    resources: Record<string, MockResource>;
+    /**
+     * Optional ENS registry and resolver, serving the addresses of the given names
+     */
+    ens?: { registry: string; resolver: string; names: Record<string, string> };
+    /**
+     * Optional hook to override the JSON-RPC reply, e.g. to simulate errors or rate limits
+     */
+    intercept?: (method: string, params: unknown[]) => { status?: number; error?: { code: number; message: string }; delay?: number } | undefined;
+};
+
+export type MockRpc = {
+    url: string;
+    /** The JSON-RPC methods received, in order */
+    calls: string[];
+    /** The gateway/site methods received through eth_call, in order */
+    contractCalls: string[];
+    close(): Promise<void>;
+};
+
+const gatewayInterface = WTTPGatewayV3__factory.createInterface();
+const siteInterface = Web3Site__factory.createInterface();
+const registryInterface = new ethers.Interface(["function resolver(bytes32) view returns (address)"]);
+const resolverInterface = new ethers.Interface(["function addr(bytes32) view returns (address)"]);
+
+/**
+ * The code of the mock gateway, with a dispatcher pushing the selectors of the WTTP methods
+ */
+const gatewayCode = ethers.concat(["0x6080", ...(["HEAD", "GET", "OPTIONS", "LOCATE"] as const).map((name) => ethers.concat(["0x63", gatewayInterface.getFunction(name).selector]))]);
+
+/**
+ * Gets the transaction of an eth_call request
+ *
+ * @returns The transaction, or undefined for other methods
+ */
+export function getMockCall(method: string, params: unknown[]): MockCall | undefined {
+    return method === "eth_call" ? params[0] as MockCall : undefined;
+}
+
+/**
+ * Starts a local JSON-RPC server that emulates a WTTP gateway and a single Web3Site
+ */
+export async function startMockRpc(options: MockRpcOptions): Promise<MockRpc> {
+    const calls: string[] = [];
+    const contractCalls: string[] = [];
+
+    const server = http.createServer((req, res) => {
+        let raw = "";
+        req.on("data", (chunk) => raw += chunk);
+        req.on("end", async () => {
+            const payload: MockRpcRequest | MockRpcRequest[] = JSON.parse(raw);
+            const requests = Array.isArray(payload) ? payload : [payload];
+            let status = 200;
+            let delay = 0;
+            const replies = requests.map((request): ethers.JsonRpcResult | ethers.JsonRpcError => {
+                calls.push(request.method);
+                const intercepted = options.intercept?.(request.method, request.params);
+                if (intercepted) {
+                    status = intercepted.status || status;
+                    delay = Math.max(delay, intercepted.delay || 0);
+                    if (intercepted.error) {
+                        return { id: request.id, error: intercepted.error };
+                    }
+                }
+                try {
+                    return { id: request.id, result: handle(request.method, request.params) };
+                } catch (error) {
+                    return { id: request.id, error: { code: 3, message: "execution reverted", data: (error as { data?: string }).data || "0x" } };
+                }
+            });
+            if (delay) await new Promise((resolve) => setTimeout(resolve, delay));
+            if (res.destroyed) return;
+            res.writeHead(status, { "Content-Type": "application/json" });
+            const body = (reply: ethers.JsonRpcResult | ethers.JsonRpcError) => ({ jsonrpc: "2.0", ...reply });
+            res.end(status === 200 ? JSON.stringify(Array.isArray(payload) ? replies.map(body) : body(replies[0])) : "rate limited");
+        });
+    });
+
+    function handle(method: string, params: unknown[]): string {
+        switch (method) {
+            case "eth_chainId":
+                return ethers.toQuantity(options.chainId);
+            case "net_version":
+                return String(options.chainId);
+            case "eth_blockNumber":
+                return "0x1";
+            case "eth_getCode": {
+                const address = ethers.getAddress(params[0] as string);
+                if (address === ethers.getAddress(options.gateway)) return gatewayCode;
+                return address === ethers.getAddress(options.site) ? "0x6080" : "0x";
+            }
+            case "eth_call":
+                return handleCall(params[0] as MockCall);
+        }
+        throw new Error(`Unsupported method ${method}`);
+    }
+
+    function handleCall(tx: { to: string; data: string }): string {
+        const to = ethers.getAddress(tx.to);
+        if (to === ethers.getAddress(options.gateway)) {
+            const call = gatewayInterface.parseTransaction({ data: tx.data });
+            if (!call) throw new Error("unknown selector");
+            contractCalls.push(`gateway.${call.name}`);
+            if (ethers.getAddress(call.args[0]) !== ethers.getAddress(options.site)) {
+                throw new Error("not a site");
+            }
+            const request = call.args[1];
+            switch (call.name) {
+                case "HEAD":
+                    return gatewayInterface.encodeFunctionResult("HEAD", [getHead(request.requestLine.path, request)]);
+                case "GET": {
+                    const path = request.head.requestLine.path;
+                    const head = getHead(path, request.head);
+                    const data = ethers.getBytes(head.responseLine.code === 304 ? "0x" : options.resources[path]?.data || "0x");
+                    const range = normalize(request.rangeBytes, data.length);
+                    return gatewayInterface.encodeFunctionResult("GET", [{
+                        head,
+                        bytesRange: range,
+                        data: data.slice(range.start, range.end)
+                    }]);
+                }
+                case "OPTIONS": {
+                    const resource = options.resources[request.path];
+                    return gatewayInterface.encodeFunctionResult("OPTIONS", [{
+                        responseLine: { protocol: "WTTP/3.0", code: resource ? 204 : 404 },
+                        allow: resource?.methods ?? 0
+                    }]);
+                }
+                case "LOCATE": {
+                    const path = request.head.requestLine.path;
+                    const points = options.resources[path]?.dataPoints || [];
+                    const range = normalize(request.rangeChunks, points.length);
+                    return gatewayInterface.encodeFunctionResult("LOCATE", [{
+                        head: getHead(path),
+                        dataPoints: points.slice(range.start, range.end)
+                    }]);
+                }
+            }
+        }
+        if (to === ethers.getAddress(options.site)) {
+            const call = siteInterface.parseTransaction({ data: tx.data });
+            if (!call) throw new Error("unknown selector");
+            contractCalls.push(`site.${call.name}`);
+            if (call.name === "HEAD") {
+                return siteInterface.encodeFunctionResult("HEAD", [getHead(call.args[0].requestLine.path)]);
+            }
+        }
+        if (options.ens && to === ethers.getAddress(options.ens.registry)) {
+            const call = registryInterface.parseTransaction({ data: tx.data });
+            if (!call) throw new Error("unknown selector");
+            contractCalls.push(`ens.${call.name}`);
+            const known = Object.keys(options.ens.names).some((name) => ethers.namehash(name) === call.args[0]);
+            return registryInterface.encodeFunctionResult("resolver", [known ? options.ens.resolver : ethers.ZeroAddress]);
+        }
+        if (options.ens && to === ethers.getAddress(options.ens.resolver)) {
+            // Only addr(bytes32) is answered, so supportsInterface reverts and the resolver is treated as a legacy one
+            const call = resolverInterface.parseTransaction({ data: tx.data });
+            if (!call) throw new Error("unknown selector");
+            contractCalls.push(`resolver.${call.name}`);
+            const name = Object.keys(options.ens.names).find((name) => ethers.namehash(name) === call.args[0]);
+            return resolverInterface.encodeFunctionResult("addr", [name ? options.ens.names[name] : ethers.ZeroAddress]);
+        }
+        throw new Error("no contract");
+    }
+
+    /**
+     * Builds the response head, answering 304 Not Modified when the conditions of the request match
+     */
+    function getHead(path: string, request?: { ifNoneMatch: string; ifModifiedSince: bigint }) {
+        const resource = options.resources[path];
+        const data = ethers.getBytes(resource?.data || "0x");
+        const etag = resource?.etag || (resource ? ethers.keccak256(data) : ethers.ZeroHash);
+        const lastModified = resource?.metadata?.lastModified ?? 0;
+        const notModified = resource && (resource.code ?? 200) === 200 && request && (
+            request.ifNoneMatch !== ethers.ZeroHash
+                ? request.ifNoneMatch === etag
+                : request.ifModifiedSince > 0n && lastModified > 0 && lastModified <= Number(request.ifModifiedSince)
+        );
+        return {
+            responseLine: { protocol: "WTTP/3.0", code: notModified ? 304 : resource ? (resource.code ?? 200) : 404 },
+            headerInfo: {
+                methods: resource?.methods ?? 0,
+                cache: { maxAge: 0, noStore: false, noCache: false, immutableFlag: false, publicFlag: false, ...resource?.cache },
+                redirect: resource?.redirect || { code: 0, location: "" },
+                resourceAdmin: ethers.ZeroHash
+            },
+            metadata: {
+                mimeType: "0x0000", charset: "0x0000", encoding: "0x0000", language: "0x0000",
+                size: data.length, version: 1, lastModified: 0, header: ethers.ZeroHash,
+                ...resource?.metadata
+            },
+            etag
+        };
+    }
+
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    return {
+        url: `http://127.0.0.1:${port}`,
+        calls,
+        contractCalls,
+        close: () => new Promise((resolve) => {
+            server.closeAllConnections();
+            server.close(() => resolve());
+        })
+    };
+}
+
+/**
+ * Applies the gateway range rules: negative values count from the end and an end of 0 means the end of the data
+ */
+function normalize(range: { start: bigint; end: bigint }, length: number): { start: number; end: number } {
+    let start = Number(range.start);
+    let end = Number(range.end);
+    if (start < 0) start = Math.max(length + start, 0);
+    if (end <= 0) end = length + end;
+    return { start: Math.min(start, length), end: Math.min(Math.max(end, start), length) };
+}
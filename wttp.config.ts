@@ -14,6 +14,7 @@ export const config: WttpConfig = {
             rpcList: ["http://localhost:8545"],
             chainId: 31337,
             gateway: "0x36C02dA8a0983159322a80FFE9F24b1acfF8B570",
+            aliases: ["leth", "local"],
         },
         sepolia: {
             rpcList: [
@@ -24,6 +25,7 @@ export const config: WttpConfig = {
             ],
             chainId: 11155111,
             gateway: "0x8B57036c02DA8A0983159322A80FFe9F24b1aCFF",
+            aliases: ["seth"],
         },
         mainnet: {
             rpcList: [
@@ -35,6 +37,7 @@ export const config: WttpConfig = {
             ],
             chainId: 1,
             gateway: "0xa80ffe9f24B1aCFf8B57036C02DA8A0983159322",
+            aliases: ["eth"],
         }
     },
 };